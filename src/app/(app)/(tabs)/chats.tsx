@@ -1,49 +1,84 @@
 import { useFocusEffect, useRouter } from "expo-router";
 import { BottomSheet } from "heroui-native/bottom-sheet";
+import { useToast } from "heroui-native/toast";
 import {
+	ArchiveIcon,
+	ArchiveRestoreIcon,
 	ChevronRightIcon,
+	CircleXIcon,
+	FileDownIcon,
 	MessageCircleIcon,
+	PencilIcon,
+	PinIcon,
+	PinOffIcon,
 	PlusIcon,
 	RefreshCwIcon,
+	SearchIcon,
 	Trash2Icon,
+	XIcon,
 } from "lucide-react-native";
-import { useCallback, useState } from "react";
+import { type ReactNode, useCallback, useState } from "react";
 import {
 	ActivityIndicator,
 	Alert,
-	FlatList,
 	Pressable,
 	RefreshControl,
+	SectionList,
 	Text,
+	TextInput,
 	View,
 } from "react-native";
 import { SafeAreaView } from "react-native-safe-area-context";
 import { withUniwind } from "uniwind";
+import { ChatSearchResults } from "@/components/chat/ChatSearchResults";
 import { api } from "@/lib/api";
+import {
+	getCachedConversations,
+	removeCachedConversation,
+	setCachedConversations,
+	updateCachedConversation,
+} from "@/lib/chat-cache";
+import { type ExportFormat, exportConversation } from "@/lib/chat-export";
+import { parseSessionDate } from "@/lib/session-date";
+import type { Conversation } from "@/lib/types/chat";
 
 const StyledSafeAreaView = withUniwind(SafeAreaView);
+const StyledArchiveIcon = withUniwind(ArchiveIcon);
+const StyledArchiveRestoreIcon = withUniwind(ArchiveRestoreIcon);
 const StyledChevronRightIcon = withUniwind(ChevronRightIcon);
+const StyledCircleXIcon = withUniwind(CircleXIcon);
+const StyledFileDownIcon = withUniwind(FileDownIcon);
 const StyledMessageCircleIcon = withUniwind(MessageCircleIcon);
+const StyledPencilIcon = withUniwind(PencilIcon);
+const StyledPinIcon = withUniwind(PinIcon);
+const StyledPinOffIcon = withUniwind(PinOffIcon);
 const StyledPlusIcon = withUniwind(PlusIcon);
 const StyledRefreshCwIcon = withUniwind(RefreshCwIcon);
+const StyledSearchIcon = withUniwind(SearchIcon);
 const StyledTrash2Icon = withUniwind(Trash2Icon);
+const StyledXIcon = withUniwind(XIcon);
 
-type Conversation = {
-	created_at: string;
-	id: string;
+type ConversationFilter = "all" | "text" | "voice";
+type ActionSheetView = "actions" | "rename" | "export";
+type ConversationSection = {
 	title: string;
-	updated_at: string;
-	user_id: string;
+	data: Conversation[];
 };
 
-function formatUpdatedAt(dateString: string) {
-	// Session timestamps are returned in UTC without a timezone suffix.
-	const utcDateString = /(?:Z|[+-]\d{2}:?\d{2})$/i.test(dateString)
-		? dateString
-		: `${dateString}Z`;
-	const date = new Date(utcDateString);
-	if (Number.isNaN(date.getTime())) return "";
+const CONVERSATION_FILTERS: { value: ConversationFilter; label: string }[] = [
+	{ value: "all", label: "All" },
+	{ value: "text", label: "Text" },
+	{ value: "voice", label: "Voice" },
+];
 
+const EXPORT_FORMATS: { value: ExportFormat; label: string }[] = [
+	{ value: "pdf", label: "PDF document" },
+	{ value: "markdown", label: "Markdown" },
+	{ value: "json", label: "JSON" },
+];
+
+// Calendar days between `date` and today in the device's time zone.
+function getDaysAgo(date: Date) {
 	const now = new Date();
 	const startOfToday = new Date(
 		now.getFullYear(),
@@ -55,10 +90,16 @@ function formatUpdatedAt(dateString: string) {
 		date.getMonth(),
 		date.getDate(),
 	);
-	const daysAgo = Math.round(
+	return Math.round(
 		(startOfToday.getTime() - startOfDate.getTime()) / 86_400_000,
 	);
+}
 
+function formatUpdatedAt(dateString: string) {
+	const date = parseSessionDate(dateString);
+	if (!date) return "";
+
+	const daysAgo = getDaysAgo(date);
 	if (daysAgo === 0)
 		return date.toLocaleTimeString([], { hour: "numeric", minute: "2-digit" });
 	if (daysAgo === 1) return "Yesterday";
@@ -66,13 +107,109 @@ function formatUpdatedAt(dateString: string) {
 	return date.toLocaleDateString([], { month: "short", day: "numeric" });
 }
 
+function getSectionTitle(dateString: string) {
+	const date = parseSessionDate(dateString);
+	if (!date) return "Earlier";
+
+	const daysAgo = getDaysAgo(date);
+	if (daysAgo <= 0) return "Today";
+	if (daysAgo === 1) return "Yesterday";
+	if (daysAgo < 7) return "This week";
+	return date.toLocaleDateString([], { month: "long", year: "numeric" });
+}
+
+/**
+ * Group sorted conversations into a "Pinned" section followed by sections
+ * for each day or month they were last updated in.
+ */
+function groupConversations(conversations: Conversation[]) {
+	const sections: ConversationSection[] = [];
+	const pinned = conversations.filter(
+		(conversation) => conversation.is_pinned && !conversation.is_archived,
+	);
+	if (pinned.length > 0) sections.push({ title: "Pinned", data: pinned });
+
+	for (const conversation of conversations) {
+		if (pinned.includes(conversation)) continue;
+		const title = getSectionTitle(conversation.updated_at);
+		const lastSection = sections[sections.length - 1];
+		if (lastSection?.title === title) lastSection.data.push(conversation);
+		else sections.push({ title, data: [conversation] });
+	}
+	return sections;
+}
+
+type ConversationUpdate = Partial<
+	Pick<Conversation, "title" | "is_pinned" | "is_archived">
+>;
+
+// The values `updates` replaces, for undo and rollback. Flags the server
+// omitted count as false, so restoring them always sends a value.
+function getPreviousFields(
+	conversation: Conversation,
+	updates: ConversationUpdate,
+): ConversationUpdate {
+	const previous: ConversationUpdate = {};
+	if ("title" in updates) previous.title = conversation.title;
+	if ("is_pinned" in updates)
+		previous.is_pinned = Boolean(conversation.is_pinned);
+	if ("is_archived" in updates)
+		previous.is_archived = Boolean(conversation.is_archived);
+	return previous;
+}
+
 async function getConversations() {
 	const response = await api.get<Conversation[]>("/api/sessions");
+	setCachedConversations(response.data);
 	return response.data;
 }
 
+async function updateConversation(id: string, updates: ConversationUpdate) {
+	await api.patch(`/api/sessions/${id}`, updates);
+	updateCachedConversation(id, updates);
+}
+
+// Pinned conversations first, then the most recently updated. Archived
+// conversations keep their pin for when they are restored, but are listed
+// by date only.
+function sortConversations(conversations: Conversation[]) {
+	const isPinned = (conversation: Conversation) =>
+		Number(Boolean(conversation.is_pinned && !conversation.is_archived));
+	return [...conversations].sort(
+		(a, b) =>
+			isPinned(b) - isPinned(a) || b.updated_at.localeCompare(a.updated_at),
+	);
+}
+
+function SheetAction({
+	icon,
+	label,
+	onPress,
+	isLoading = false,
+	isDisabled = false,
+}: {
+	icon: ReactNode;
+	label: string;
+	onPress: () => void;
+	isLoading?: boolean;
+	isDisabled?: boolean;
+}) {
+	return (
+		<Pressable
+			onPress={onPress}
+			disabled={isDisabled}
+			accessibilityRole="button"
+			className="flex-row items-center justify-center gap-2 rounded-2xl bg-surface py-4 disabled:opacity-50"
+		>
+			{isLoading ? <ActivityIndicator /> : icon}
+			<Text className="font-sans-medium text-foreground">{label}</Text>
+		</Pressable>
+	);
+}
+
 export default function ChatsScreen() {
 	const router = useRouter();
+	const { toast } = useToast();
 	const [conversations, setConversations] = useState<Conversation[]>([]);
 	const [isLoading, setIsLoading] = useState(true);
 	const [isRefreshing, setIsRefreshing] = useState(false);
@@ -81,6 +218,26 @@ export default function ChatsScreen() {
 		useState<Conversation | null>(null);
 	const [isActionSheetOpen, setIsActionSheetOpen] = useState(false);
 	const [isDeleting, setIsDeleting] = useState(false);
+	const [sheetView, setSheetView] = useState<ActionSheetView>("actions");
+	const [exportingFormat, setExportingFormat] = useState<ExportFormat | null>(
+		null,
+	);
+	const [titleDraft, setTitleDraft] = useState("");
+	const [isShowingArchived, setIsShowingArchived] = useState(false);
+	const [filter, setFilter] = useState<ConversationFilter>("all");
+
+	const [isShowingCache, setIsShowingCache] = useState(false);
+	const [searchQuery, setSearchQuery] = useState("");
+	const trimmedSearchQuery = searchQuery.trim();
+	const sections = groupConversations(
+		sortConversations(
+			conversations.filter(
+				(conversation) =>
+					Boolean(conversation.is_archived) === isShowingArchived &&
+					(filter === "all" || (conversation.mode ?? "text") === filter),
+			),
+		),
+	);
 
 	const loadConversations = async (refresh = false) => {
 		if (refresh) setIsRefreshing(true);
@@ -88,8 +245,10 @@ export default function ChatsScreen() {
 
 		try {
 			setConversations(await getConversations());
+			setIsShowingCache(false);
 		} catch {
-			setError("We couldn't load your conversations. Please try again.");
+			if (!isShowingCache)
+				setError("We couldn't load your conversations. Please try again.");
 		} finally {
 			setIsLoading(false);
 			setIsRefreshing(false);
@@ -99,13 +258,28 @@ export default function ChatsScreen() {
 	useFocusEffect(
 		useCallback(() => {
 			let cancelled = false;
+			let hasCachedConversations = false;
 
-			getConversations()
+			// Render the cached list straight away, then reconcile with the
+			// server in the background.
+			getCachedConversations()
+				.then((cached) => {
+					if (cancelled || !cached) return;
+					hasCachedConversations = true;
+					setConversations((current) =>
+						current.length > 0 ? current : cached,
+					);
+					setIsShowingCache(true);
+					setIsLoading(false);
+				})
+				.then(getConversations)
 				.then((data) => {
-					if (!cancelled) setConversations(data);
+					if (cancelled) return;
+					setConversations(data);
+					setIsShowingCache(false);
 				})
 				.catch(() => {
-					if (!cancelled)
+					if (!cancelled && !hasCachedConversations)
 						setError("We couldn't load your conversations. Please try again.");
 				})
 				.finally(() => {
@@ -118,12 +292,113 @@ export default function ChatsScreen() {
 		}, []),
 	);
 
+	const closeActionSheet = () => {
+		setIsActionSheetOpen(false);
+		setSheetView("actions");
+		setSelectedConversation(null);
+	};
+
+	const setConversationFields = (id: string, updates: ConversationUpdate) =>
+		setConversations((current) =>
+			current.map((conversation) =>
+				conversation.id === id ? { ...conversation, ...updates } : conversation,
+			),
+		);
+
+	// Applies a change straight away, reverting it if the server rejects
+	// it, and offers to undo it.
+	const changeConversation = async (
+		conversation: Conversation,
+		updates: ConversationUpdate,
+		undoLabel?: string,
+	) => {
+		const previous = getPreviousFields(conversation, updates);
+
+		setConversationFields(conversation.id, updates);
+		try {
+			await updateConversation(conversation.id, updates);
+		} catch {
+			setConversationFields(conversation.id, previous);
+			toast.show({
+				variant: "danger",
+				label: "Unable to update conversation",
+				description: "Please check your connection and try again.",
+				icon: <StyledCircleXIcon className="text-danger" />,
+			});
+			return;
+		}
+
+		if (undoLabel)
+			toast.show({
+				label: undoLabel,
+				actionLabel: "Undo",
+				onActionPress: ({ hide }) => {
+					hide();
+					changeConversation({ ...conversation, ...updates }, previous);
+				},
+			});
+	};
+
+	const renameConversation = () => {
+		const title = titleDraft.trim();
+		if (!selectedConversation || !title) return;
+		if (title !== selectedConversation.title)
+			changeConversation(
+				selectedConversation,
+				{ title },
+				"Conversation renamed",
+			);
+		closeActionSheet();
+	};
+
+	const togglePinned = () => {
+		if (!selectedConversation) return;
+		const isPinned = !selectedConversation.is_pinned;
+		changeConversation(
+			selectedConversation,
+			{ is_pinned: isPinned },
+			isPinned ? "Conversation pinned" : "Conversation unpinned",
+		);
+		closeActionSheet();
+	};
+
+	const toggleArchived = () => {
+		if (!selectedConversation) return;
+		const isArchived = !selectedConversation.is_archived;
+		changeConversation(
+			selectedConversation,
+			{ is_archived: isArchived },
+			isArchived ? "Conversation archived" : "Conversation restored",
+		);
+		closeActionSheet();
+	};
+
+	const exportSelectedConversation = async (format: ExportFormat) => {
+		if (!selectedConversation) return;
+
+		setExportingFormat(format);
+		try {
+			await exportConversation(selectedConversation, format);
+			closeActionSheet();
+		} catch {
+			toast.show({
+				variant: "danger",
+				label: "Unable to export conversation",
+				description: "Please check your connection and try again.",
+				icon: <StyledCircleXIcon className="text-danger" />,
+			});
+		} finally {
+			setExportingFormat(null);
+		}
+	};
+
 	const deleteConversation = async () => {
 		if (!selectedConversation) return;
 
 		setIsDeleting(true);
 		try {
 			await api.delete(`/api/sessions/${selectedConversation.id}`);
+			removeCachedConversation(selectedConversation.id);
 			setConversations((current) =>
 				current.filter(
 					(conversation) => conversation.id !== selectedConversation.id,
@@ -145,25 +420,95 @@ export default function ChatsScreen() {
 		<>
 			<StyledSafeAreaView className="flex-1 bg-background">
 				<View className="flex-row items-center justify-between px-6 pt-4 pb-5">
-					<View>
+					<View className="shrink">
 						<Text className="font-sans-medium text-3xl text-foreground">
-							Conversations
+							{isShowingArchived ? "Archived" : "Conversations"}
 						</Text>
 						<Text className="mt-1 font-sans text-sm text-muted">
-							A space to talk things through
+							{isShowingCache
+								? "Showing saved conversations"
+								: isShowingArchived
+									? "Conversations you've put away"
+									: "A space to talk things through"}
 						</Text>
 					</View>
-					<Pressable
-						onPress={() => router.push("/chat/new")}
-						accessibilityRole="button"
-						accessibilityLabel="Start a new conversation"
-						className="size-12 items-center justify-center rounded-full bg-accent"
-					>
-						<StyledPlusIcon className="text-accent-foreground" size={22} />
-					</Pressable>
+					<View className="flex-row items-center gap-2">
+						<Pressable
+							onPress={() => setIsShowingArchived((current) => !current)}
+							accessibilityRole="button"
+							accessibilityLabel={
+								isShowingArchived
+									? "Show conversations"
+									: "Show archived conversations"
+							}
+							accessibilityState={{ selected: isShowingArchived }}
+							className={`size-12 items-center justify-center rounded-full border border-border ${isShowingArchived ? "bg-accent/10" : "bg-surface"}`}
+						>
+							<StyledArchiveIcon
+								className={
+									isShowingArchived ? "text-accent" : "text-foreground"
+								}
+								size={20}
+							/>
+						</Pressable>
+						<Pressable
+							onPress={() => router.push("/chat/new")}
+							accessibilityRole="button"
+							accessibilityLabel="Start a new conversation"
+							className="size-12 items-center justify-center rounded-full bg-accent"
+						>
+							<StyledPlusIcon className="text-accent-foreground" size={22} />
+						</Pressable>
+					</View>
+				</View>
+
+				<View className="mx-5 mb-4 flex-row items-center gap-2 rounded-full border border-border bg-surface px-4">
+					<StyledSearchIcon className="text-muted" size={18} />
+					<TextInput
+						value={searchQuery}
+						onChangeText={setSearchQuery}
+						placeholder="Search conversations"
+						placeholderTextColor="#8a8680"
+						returnKeyType="search"
+						autoCorrect={false}
+						accessibilityLabel="Search conversations"
+						className="flex-1 py-3 font-sans text-base text-foreground"
+					/>
+					{searchQuery.length > 0 && (
+						<Pressable
+							onPress={() => setSearchQuery("")}
+							hitSlop={8}
+							accessibilityRole="button"
+							accessibilityLabel="Clear search"
+						>
+							<StyledXIcon className="text-muted" size={18} />
+						</Pressable>
+					)}
 				</View>
 
-				{isLoading ? (
+				{!trimmedSearchQuery && (
+					<View className="mx-5 mb-3 flex-row gap-2">
+						{CONVERSATION_FILTERS.map((option) => (
+							<Pressable
+								key={option.value}
+								onPress={() => setFilter(option.value)}
+								accessibilityRole="button"
+								accessibilityState={{ selected: filter === option.value }}
+								className={`rounded-full border px-4 py-1.5 ${filter === option.value ? "border-accent bg-accent" : "border-border bg-surface"}`}
+							>
+								<Text
+									className={`font-sans-medium text-sm ${filter === option.value ? "text-accent-foreground" : "text-foreground"}`}
+								>
+									{option.label}
+								</Text>
+							</Pressable>
+						))}
+					</View>
+				)}
+
+				{trimmedSearchQuery ? (
+					<ChatSearchResults query={trimmedSearchQuery} />
+				) : isLoading ? (
 					<View className="flex-1 items-center justify-center gap-3">
 						<ActivityIndicator />
 						<Text className="font-sans text-muted">
@@ -188,10 +533,19 @@ export default function ChatsScreen() {
 						</Pressable>
 					</View>
 				) : (
-					<FlatList
-						data={conversations}
+					<SectionList
+						sections={sections}
 						keyExtractor={(conversation) => conversation.id}
 						contentContainerClassName="px-5 pb-8"
+						stickySectionHeadersEnabled
+						renderSectionHeader={({ section }) => (
+							<Text
+								accessibilityRole="header"
+								className="bg-background pt-2 pb-2 font-sans-medium text-xs uppercase text-muted"
+							>
+								{section.title}
+							</Text>
+						)}
 						refreshControl={
 							<RefreshControl
 								refreshing={isRefreshing}
@@ -218,12 +572,21 @@ export default function ChatsScreen() {
 									<StyledMessageCircleIcon className="text-accent" size={20} />
 								</View>
 								<View className="flex-1 pr-3">
-									<Text
-										numberOfLines={1}
-										className="font-sans-medium text-base text-foreground"
-									>
-										{item.title || "Untitled conversation"}
-									</Text>
+									<View className="flex-row items-center gap-1.5">
+										{item.is_pinned && !item.is_archived && (
+											<StyledPinIcon
+												className="text-accent"
+												size={14}
+												accessibilityLabel="Pinned"
+											/>
+										)}
+										<Text
+											numberOfLines={1}
+											className="shrink font-sans-medium text-base text-foreground"
+										>
+											{item.title || "Untitled conversation"}
+										</Text>
+									</View>
 									<Text className="mt-1 font-sans text-sm text-muted">
 										{formatUpdatedAt(item.updated_at)}
 									</Text>
@@ -232,17 +595,40 @@ export default function ChatsScreen() {
 							</Pressable>
 						)}
 						ListEmptyComponent={
-							<View className="items-center px-8 pt-28">
-								<View className="size-16 items-center justify-center rounded-full bg-surface">
-									<StyledMessageCircleIcon className="text-muted" size={28} />
+							filter !== "all" && conversations.length > 0 ? (
+								<View className="items-center px-8 pt-28">
+									<Text className="font-sans-medium text-lg text-foreground">
+										No {filter} conversations
+									</Text>
+									<Text className="mt-2 text-center font-sans text-muted">
+										Conversations you start by {filter} will show up here.
+									</Text>
 								</View>
-								<Text className="mt-5 font-sans-medium text-lg text-foreground">
-									No conversations yet
-								</Text>
-								<Text className="mt-2 text-center font-sans text-muted">
-									Start a chat whenever you need a little support.
-								</Text>
-							</View>
+							) : isShowingArchived ? (
+								<View className="items-center px-8 pt-28">
+									<View className="size-16 items-center justify-center rounded-full bg-surface">
+										<StyledArchiveIcon className="text-muted" size={28} />
+									</View>
+									<Text className="mt-5 font-sans-medium text-lg text-foreground">
+										No archived conversations
+									</Text>
+									<Text className="mt-2 text-center font-sans text-muted">
+										Long-press a conversation to archive it.
+									</Text>
+								</View>
+							) : (
+								<View className="items-center px-8 pt-28">
+									<View className="size-16 items-center justify-center rounded-full bg-surface">
+										<StyledMessageCircleIcon className="text-muted" size={28} />
+									</View>
+									<Text className="mt-5 font-sans-medium text-lg text-foreground">
+										No conversations yet
+									</Text>
+									<Text className="mt-2 text-center font-sans text-muted">
+										Start a chat whenever you need a little support.
+									</Text>
+								</View>
+							)
 						}
 					/>
 				)}
@@ -251,6 +637,7 @@ export default function ChatsScreen() {
 				isOpen={isActionSheetOpen}
 				onOpenChange={(isOpen) => {
 					setIsActionSheetOpen(isOpen);
+					if (!isOpen) setSheetView("actions");
 					if (!isOpen && !isDeleting) setSelectedConversation(null);
 				}}
 			>
@@ -264,34 +651,161 @@ export default function ChatsScreen() {
 							<BottomSheet.Description className="mt-1 font-sans text-sm text-muted">
 								{selectedConversation?.title || "Untitled conversation"}
 							</BottomSheet.Description>
-							<Pressable
-								onPress={() =>
-									Alert.alert(
-										"Delete conversation?",
-										"This will permanently remove this conversation and its messages.",
-										[
-											{ text: "Cancel", style: "cancel" },
-											{
-												text: "Delete",
-												style: "destructive",
-												onPress: deleteConversation,
-											},
-										],
-									)
-								}
-								disabled={isDeleting}
-								accessibilityRole="button"
-								className="mt-6 flex-row items-center justify-center gap-2 rounded-2xl bg-red-500/10 py-4 disabled:opacity-50"
-							>
-								{isDeleting ? (
-									<ActivityIndicator />
-								) : (
-									<StyledTrash2Icon className="text-red-600" size={19} />
-								)}
-								<Text className="font-sans-medium text-red-600">
-									Delete conversation
-								</Text>
-							</Pressable>
+							{sheetView === "rename" ? (
+								<View className="mt-6 gap-3">
+									<TextInput
+										value={titleDraft}
+										onChangeText={setTitleDraft}
+										placeholder="Conversation title"
+										placeholderTextColor="#8a8680"
+										autoFocus
+										maxLength={100}
+										returnKeyType="done"
+										onSubmitEditing={renameConversation}
+										className="rounded-2xl border border-border bg-background px-4 py-3 font-sans text-base text-foreground"
+									/>
+									<View className="flex-row gap-2">
+										<Pressable
+											onPress={() => setSheetView("actions")}
+											accessibilityRole="button"
+											className="flex-1 items-center rounded-2xl bg-surface py-4"
+										>
+											<Text className="font-sans-medium text-foreground">
+												Cancel
+											</Text>
+										</Pressable>
+										<Pressable
+											onPress={renameConversation}
+											disabled={!titleDraft.trim()}
+											accessibilityRole="button"
+											className="flex-1 items-center rounded-2xl bg-accent py-4 disabled:opacity-50"
+										>
+											<Text className="font-sans-medium text-accent-foreground">
+												Save
+											</Text>
+										</Pressable>
+									</View>
+								</View>
+							) : sheetView === "export" ? (
+								<View className="mt-6 gap-2">
+									{EXPORT_FORMATS.map((format) => (
+										<SheetAction
+											key={format.value}
+											icon={
+												<StyledFileDownIcon
+													className="text-foreground"
+													size={19}
+												/>
+											}
+											label={format.label}
+											isLoading={exportingFormat === format.value}
+											isDisabled={exportingFormat !== null}
+											onPress={() => exportSelectedConversation(format.value)}
+										/>
+									))}
+									<Pressable
+										onPress={() => setSheetView("actions")}
+										disabled={exportingFormat !== null}
+										accessibilityRole="button"
+										className="items-center py-3 disabled:opacity-50"
+									>
+										<Text className="font-sans-medium text-muted">Back</Text>
+									</Pressable>
+								</View>
+							) : (
+								<View className="mt-6 gap-2">
+									<SheetAction
+										icon={
+											<StyledPencilIcon className="text-foreground" size={19} />
+										}
+										label="Rename"
+										onPress={() => {
+											setTitleDraft(selectedConversation?.title ?? "");
+											setSheetView("rename");
+										}}
+									/>
+									<SheetAction
+										icon={
+											<StyledFileDownIcon
+												className="text-foreground"
+												size={19}
+											/>
+										}
+										label="Export"
+										onPress={() => setSheetView("export")}
+									/>
+									{!selectedConversation?.is_archived && (
+										<SheetAction
+											icon={
+												selectedConversation?.is_pinned ? (
+													<StyledPinOffIcon
+														className="text-foreground"
+														size={19}
+													/>
+												) : (
+													<StyledPinIcon
+														className="text-foreground"
+														size={19}
+													/>
+												)
+											}
+											label={
+												selectedConversation?.is_pinned ? "Unpin" : "Pin to top"
+											}
+											onPress={togglePinned}
+										/>
+									)}
+									<SheetAction
+										icon={
+											selectedConversation?.is_archived ? (
+												<StyledArchiveRestoreIcon
+													className="text-foreground"
+													size={19}
+												/>
+											) : (
+												<StyledArchiveIcon
+													className="text-foreground"
+													size={19}
+												/>
+											)
+										}
+										label={
+											selectedConversation?.is_archived
+												? "Move to conversations"
+												: "Archive"
+										}
+										onPress={toggleArchived}
+									/>
+									<Pressable
+										onPress={() =>
+											Alert.alert(
+												"Delete conversation?",
+												"This will permanently remove this conversation and its messages.",
+												[
+													{ text: "Cancel", style: "cancel" },
+													{
+														text: "Delete",
+														style: "destructive",
+														onPress: deleteConversation,
+													},
+												],
+											)
+										}
+										disabled={isDeleting}
+										accessibilityRole="button"
+										className="flex-row items-center justify-center gap-2 rounded-2xl bg-red-500/10 py-4 disabled:opacity-50"
+									>
+										{isDeleting ? (
+											<ActivityIndicator />
+										) : (
+											<StyledTrash2Icon className="text-red-600" size={19} />
+										)}
+										<Text className="font-sans-medium text-red-600">
+											Delete conversation
+										</Text>
+									</Pressable>
+								</View>
+							)}
 						</View>
 					</BottomSheet.Content>
 				</BottomSheet.Portal>
@@ -1,18 +1,590 @@
+import { isAxiosError } from "axios";
 import { Image } from "expo-image";
+import { useFocusEffect } from "expo-router";
+import { BottomSheet } from "heroui-native/bottom-sheet";
 import { Button } from "heroui-native/button";
 import { Card } from "heroui-native/card";
 import { Switch } from "heroui-native/switch";
-import { LogOutIcon, UserIcon } from "lucide-react-native";
-import { Text, View } from "react-native";
+import { useToast } from "heroui-native/toast";
+import {
+	CircleXIcon,
+	LogOutIcon,
+	TriangleAlertIcon,
+	UserIcon,
+} from "lucide-react-native";
+import { useCallback, useState } from "react";
+import {
+	ActivityIndicator,
+	Pressable,
+	ScrollView,
+	Text,
+	TextInput,
+	View,
+} from "react-native";
 import { SafeAreaView } from "react-native-safe-area-context";
 import { withUniwind } from "uniwind";
+import { VoiceOptionsPicker } from "@/components/voice/VoiceOptionsPicker";
 import { useAuth } from "@/context/AuthContext";
 import { useSettings } from "@/context/SettingsContext";
+import { exportAccountData } from "@/lib/account-data";
+import { clearAudioCache, getAudioCacheSize } from "@/lib/audio-cache";
+import { describeVoiceOptions } from "@/lib/voices";
 
 const StyledSafeAreaView = withUniwind(SafeAreaView);
+const StyledCircleXIcon = withUniwind(CircleXIcon);
 const StyledLogOutIcon = withUniwind(LogOutIcon);
+const StyledTriangleAlertIcon = withUniwind(TriangleAlertIcon);
 const StyledUserIcon = withUniwind(UserIcon);
 
+const PHONE_NUMBER_PATTERN = /^\+?[\d\s().-]{3,}$/;
+const SILENCE_OPTIONS = [
+	{ value: 1000, label: "1 s" },
+	{ value: 1500, label: "1.5 s" },
+	{ value: 2000, label: "2 s" },
+	{ value: 3000, label: "3 s" },
+];
+const RECORDING_LENGTH_OPTIONS = [
+	{ value: 30, label: "30 s" },
+	{ value: 60, label: "1 min" },
+	{ value: 120, label: "2 min" },
+	{ value: 300, label: "5 min" },
+];
+// Typed by the user before the account can be deleted.
+const DELETE_CONFIRMATION = "DELETE";
+
+function formatStorageSize(bytes: number) {
+	if (bytes < 1024 * 1024) return `${Math.ceil(bytes / 1024)} KB`;
+	return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+}
+
+function TrustedContactCard() {
+	const { settings, updateSettings } = useSettings();
+	const { trustedContact } = settings;
+	const [isEditing, setIsEditing] = useState(false);
+	const [name, setName] = useState("");
+	const [phone, setPhone] = useState("");
+	const canSave = name.trim().length > 0 && PHONE_NUMBER_PATTERN.test(phone);
+
+	const startEditing = () => {
+		setName(trustedContact?.name ?? "");
+		setPhone(trustedContact?.phone ?? "");
+		setIsEditing(true);
+	};
+
+	const saveContact = () => {
+		if (!canSave) return;
+		updateSettings({
+			trustedContact: {
+				name: name.trim(),
+				phone: phone.replace(/[^\d+]/g, ""),
+			},
+		});
+		setIsEditing(false);
+	};
+
+	return (
+		<Card>
+			<Card.Body className="gap-3">
+				<View className="flex-row justify-between items-center gap-4">
+					<View className="shrink">
+						<Text className="font-sans text-base">Trusted contact</Text>
+						<Text className="font-sans text-xs text-muted">
+							{trustedContact
+								? `${trustedContact.name} · ${trustedContact.phone}`
+								: "Someone you can reach in one tap when you need support."}
+						</Text>
+					</View>
+					{!isEditing && (
+						<Button size="sm" variant="secondary" onPress={startEditing}>
+							{trustedContact ? "Edit" : "Add"}
+						</Button>
+					)}
+				</View>
+				{isEditing && (
+					<>
+						<TextInput
+							value={name}
+							onChangeText={setName}
+							placeholder="Name"
+							placeholderTextColor="#8a8680"
+							autoComplete="name"
+							returnKeyType="next"
+							className="rounded-2xl border border-border bg-background px-4 py-3 font-sans text-base text-foreground"
+						/>
+						<TextInput
+							value={phone}
+							onChangeText={setPhone}
+							placeholder="Phone number"
+							placeholderTextColor="#8a8680"
+							keyboardType="phone-pad"
+							autoComplete="tel"
+							className="rounded-2xl border border-border bg-background px-4 py-3 font-sans text-base text-foreground"
+						/>
+						<View className="flex-row justify-end gap-2">
+							{trustedContact && (
+								<Button
+									size="sm"
+									variant="ghost"
+									onPress={() => {
+										updateSettings({ trustedContact: null });
+										setIsEditing(false);
+									}}
+								>
+									Remove
+								</Button>
+							)}
+							<Button
+								size="sm"
+								variant="ghost"
+								onPress={() => setIsEditing(false)}
+							>
+								Cancel
+							</Button>
+							<Button size="sm" isDisabled={!canSave} onPress={saveContact}>
+								Save
+							</Button>
+						</View>
+					</>
+				)}
+			</Card.Body>
+		</Card>
+	);
+}
+
+function AssistantVoiceCard() {
+	const { settings, updateSettings } = useSettings();
+	const [isPickerOpen, setIsPickerOpen] = useState(false);
+
+	return (
+		<>
+			<Card>
+				<Card.Body className="flex-row justify-between items-center gap-4">
+					<View className="shrink">
+						<Text className="font-sans text-base">Dear AI&apos;s voice</Text>
+						<Text className="font-sans text-xs text-muted">
+							{describeVoiceOptions(settings.voiceOptions)}
+						</Text>
+					</View>
+					<Button
+						size="sm"
+						variant="secondary"
+						onPress={() => setIsPickerOpen(true)}
+					>
+						Change
+					</Button>
+				</Card.Body>
+			</Card>
+			<BottomSheet isOpen={isPickerOpen} onOpenChange={setIsPickerOpen}>
+				<BottomSheet.Portal>
+					<BottomSheet.Overlay />
+					<BottomSheet.Content>
+						<View className="px-5 pb-7 pt-2">
+							<BottomSheet.Title className="font-sans-medium text-lg text-foreground">
+								Dear AI&apos;s voice
+							</BottomSheet.Title>
+							<BottomSheet.Description className="mt-1 mb-5 font-sans text-sm text-muted">
+								Used in voice chats unless a conversation has its own.
+							</BottomSheet.Description>
+							<VoiceOptionsPicker
+								value={settings.voiceOptions}
+								onChange={(updates) =>
+									updateSettings({
+										voiceOptions: { ...settings.voiceOptions, ...updates },
+									})
+								}
+							/>
+						</View>
+					</BottomSheet.Content>
+				</BottomSheet.Portal>
+			</BottomSheet>
+		</>
+	);
+}
+
+function HandsFreeCard() {
+	const { settings, updateSettings } = useSettings();
+
+	return (
+		<Card>
+			<Card.Body className="gap-3">
+				<View className="flex-row justify-between items-center gap-4">
+					<View className="shrink">
+						<Text className="font-sans text-base">Hands-free voice chat</Text>
+						<Text className="font-sans text-xs text-muted">
+							Start talking without tapping the mic. Your message is sent when
+							you pause.
+						</Text>
+					</View>
+					<Switch
+						isSelected={settings.handsFreeVoiceMode}
+						onSelectedChange={(handsFreeVoiceMode) =>
+							updateSettings({ handsFreeVoiceMode })
+						}
+					/>
+				</View>
+				{settings.handsFreeVoiceMode && (
+					<View className="gap-2">
+						<Text className="font-sans text-xs text-muted">
+							Send after a pause of
+						</Text>
+						<View className="flex-row gap-2">
+							{SILENCE_OPTIONS.map((option) => {
+								const isSelected = settings.handsFreeSilenceMs === option.value;
+								return (
+									<Pressable
+										key={option.value}
+										onPress={() =>
+											updateSettings({ handsFreeSilenceMs: option.value })
+										}
+										accessibilityRole="button"
+										accessibilityState={{ selected: isSelected }}
+										className={`rounded-full border px-4 py-1.5 ${isSelected ? "border-accent bg-accent" : "border-border bg-surface"}`}
+									>
+										<Text
+											className={`font-sans-medium text-sm ${isSelected ? "text-accent-foreground" : "text-foreground"}`}
+										>
+											{option.label}
+										</Text>
+									</Pressable>
+								);
+							})}
+						</View>
+					</View>
+				)}
+			</Card.Body>
+		</Card>
+	);
+}
+
+function RecordingLengthCard() {
+	const { settings, updateSettings } = useSettings();
+
+	return (
+		<Card>
+			<Card.Body className="gap-3">
+				<View>
+					<Text className="font-sans text-base">Longest voice message</Text>
+					<Text className="font-sans text-xs text-muted">
+						Longer recordings are sent when they reach this length, and Dear AI
+						keeps listening after replying so you can go on.
+					</Text>
+				</View>
+				<View className="flex-row gap-2">
+					{RECORDING_LENGTH_OPTIONS.map((option) => {
+						const isSelected = settings.maxUtteranceSeconds === option.value;
+						return (
+							<Pressable
+								key={option.value}
+								onPress={() =>
+									updateSettings({ maxUtteranceSeconds: option.value })
+								}
+								accessibilityRole="button"
+								accessibilityState={{ selected: isSelected }}
+								className={`rounded-full border px-4 py-1.5 ${isSelected ? "border-accent bg-accent" : "border-border bg-surface"}`}
+							>
+								<Text
+									className={`font-sans-medium text-sm ${isSelected ? "text-accent-foreground" : "text-foreground"}`}
+								>
+									{option.label}
+								</Text>
+							</Pressable>
+						);
+					})}
+				</View>
+			</Card.Body>
+		</Card>
+	);
+}
+
+function AudioCacheCard() {
+	const [cacheSize, setCacheSize] = useState(0);
+
+	// Voice chats add to the cache, so it is measured each time Settings opens.
+	useFocusEffect(
+		useCallback(() => {
+			setCacheSize(getAudioCacheSize());
+		}, []),
+	);
+
+	return (
+		<Card>
+			<Card.Body className="flex-row justify-between items-center gap-4">
+				<View className="shrink">
+					<Text className="font-sans text-base">Voice audio storage</Text>
+					<Text className="font-sans text-xs text-muted">
+						{formatStorageSize(cacheSize)} used by replies and voice samples
+						saved on this device.
+					</Text>
+				</View>
+				<Button
+					size="sm"
+					variant="secondary"
+					isDisabled={cacheSize === 0}
+					onPress={() => {
+						clearAudioCache();
+						setCacheSize(getAudioCacheSize());
+					}}
+				>
+					Clear
+				</Button>
+			</Card.Body>
+		</Card>
+	);
+}
+
+function SpeechRecognitionCard() {
+	const { settings, updateSettings } = useSettings();
+
+	return (
+		<Card>
+			<Card.Body className="gap-3">
+				<View className="flex-row justify-between items-center gap-4">
+					<View className="shrink">
+						<Text className="font-sans text-base">
+							Transcribe on this device
+						</Text>
+						<Text className="font-sans text-xs text-muted">
+							See your words as soon as you stop talking, and keep voice chat
+							working on a weak connection. Downloads a speech model of about
+							150 MB.
+						</Text>
+					</View>
+					<Switch
+						isSelected={settings.onDeviceSpeechRecognition}
+						onSelectedChange={(onDeviceSpeechRecognition) =>
+							updateSettings({ onDeviceSpeechRecognition })
+						}
+					/>
+				</View>
+				{settings.onDeviceSpeechRecognition && (
+					<View className="flex-row justify-between items-center gap-4">
+						<View className="shrink">
+							<Text className="font-sans text-sm">Only send text</Text>
+							<Text className="font-sans text-xs text-muted">
+								Your recordings never leave this phone. Dear AI still answers
+								out loud.
+							</Text>
+						</View>
+						<Switch
+							isSelected={settings.sendVoiceAsText}
+							onSelectedChange={(sendVoiceAsText) =>
+								updateSettings({ sendVoiceAsText })
+							}
+						/>
+					</View>
+				)}
+			</Card.Body>
+		</Card>
+	);
+}
+
+function SpeechSynthesisCard() {
+	const { settings, updateSettings } = useSettings();
+
+	return (
+		<Card>
+			<Card.Body className="flex-row justify-between items-center gap-4">
+				<View className="shrink">
+					<Text className="font-sans text-base">
+						Speak replies on this device
+					</Text>
+					<Text className="font-sans text-xs text-muted">
+						Voice chat keeps talking even when replies arrive as text only, and
+						text chats can read replies aloud. Downloads a voice model.
+					</Text>
+				</View>
+				<Switch
+					isSelected={settings.onDeviceSpeechSynthesis}
+					onSelectedChange={(onDeviceSpeechSynthesis) =>
+						updateSettings({ onDeviceSpeechSynthesis })
+					}
+				/>
+			</Card.Body>
+		</Card>
+	);
+}
+
+function YourDataSection() {
+	const { deleteAccount } = useAuth();
+	const { settings, resetSettings } = useSettings();
+	const { toast } = useToast();
+	const [isExporting, setIsExporting] = useState(false);
+	const [isDeleteSheetOpen, setIsDeleteSheetOpen] = useState(false);
+	const [confirmation, setConfirmation] = useState("");
+	const [isDeleting, setIsDeleting] = useState(false);
+	const canDelete = confirmation.trim().toUpperCase() === DELETE_CONFIRMATION;
+
+	const downloadData = async () => {
+		setIsExporting(true);
+		try {
+			const { missing } = await exportAccountData(settings);
+			if (missing.length > 0)
+				toast.show({
+					variant: "warning",
+					label: "Some of your data is missing",
+					description: `The file doesn't include your ${missing.join(" or ")}. Please try again later.`,
+					icon: <StyledTriangleAlertIcon className="text-warning" />,
+				});
+		} catch {
+			toast.show({
+				variant: "danger",
+				label: "Unable to prepare your data",
+				description: "Please check your connection and try again.",
+				icon: <StyledCircleXIcon className="text-danger" />,
+			});
+		} finally {
+			setIsExporting(false);
+		}
+	};
+
+	const confirmDeletion = async () => {
+		if (!canDelete) return;
+
+		setIsDeleting(true);
+		let isDeviceCleared = true;
+		try {
+			await deleteAccount();
+		} catch (error) {
+			// `deleteAccount` only signs out once the server has removed the
+			// account, so anything but a failed request means it is already gone.
+			if (isAxiosError(error)) {
+				setIsDeleting(false);
+				toast.show({
+					variant: "danger",
+					label: "Unable to delete your account",
+					description: "Nothing was removed. Please try again.",
+					icon: <StyledCircleXIcon className="text-danger" />,
+				});
+				return;
+			}
+			isDeviceCleared = false;
+		}
+
+		try {
+			await resetSettings();
+		} catch {
+			isDeviceCleared = false;
+		}
+		if (!isDeviceCleared) {
+			setIsDeleting(false);
+			toast.show({
+				variant: "danger",
+				label: "Your account was deleted",
+				description:
+					"Some data couldn't be cleared from this device. Reinstall the app to remove it.",
+				icon: <StyledCircleXIcon className="text-danger" />,
+			});
+		}
+	};
+
+	return (
+		<>
+			<Text className="text-xl font-sans mt-6 mb-2">Your data</Text>
+			<AudioCacheCard />
+			<Card>
+				<Card.Body className="flex-row justify-between items-center gap-4">
+					<View className="shrink">
+						<Text className="font-sans text-base">Download your data</Text>
+						<Text className="font-sans text-xs text-muted">
+							A zip file with your profile, conversations, diary, emotion logs
+							and settings.
+						</Text>
+					</View>
+					<Button
+						size="sm"
+						variant="secondary"
+						isDisabled={isExporting}
+						onPress={downloadData}
+					>
+						{isExporting ? "Preparing…" : "Download"}
+					</Button>
+				</Card.Body>
+			</Card>
+			<Card>
+				<Card.Body className="flex-row justify-between items-center gap-4">
+					<View className="shrink">
+						<Text className="font-sans text-base text-danger">
+							Delete account
+						</Text>
+						<Text className="font-sans text-xs text-muted">
+							Permanently remove your account and everything stored with it.
+						</Text>
+					</View>
+					<Button
+						size="sm"
+						variant="secondary"
+						onPress={() => {
+							setConfirmation("");
+							setIsDeleteSheetOpen(true);
+						}}
+					>
+						<Text className="font-sans-medium text-danger">Delete</Text>
+					</Button>
+				</Card.Body>
+			</Card>
+			<BottomSheet
+				isOpen={isDeleteSheetOpen}
+				onOpenChange={(isOpen) => {
+					if (!isDeleting) setIsDeleteSheetOpen(isOpen);
+				}}
+			>
+				<BottomSheet.Portal>
+					<BottomSheet.Overlay />
+					<BottomSheet.Content>
+						<View className="px-5 pb-7 pt-2">
+							<BottomSheet.Title className="font-sans-medium text-lg text-foreground">
+								Delete your account?
+							</BottomSheet.Title>
+							<BottomSheet.Description className="mt-1 font-sans text-sm text-muted">
+								Your conversations, diary entries and emotion logs will be
+								deleted from our servers, and everything saved on this device
+								will be erased. This can&apos;t be undone, so download your data
+								first if you want to keep a copy.
+							</BottomSheet.Description>
+							<Text className="mt-6 font-sans text-sm text-foreground">
+								Type {DELETE_CONFIRMATION} to confirm.
+							</Text>
+							<TextInput
+								value={confirmation}
+								onChangeText={setConfirmation}
+								placeholder={DELETE_CONFIRMATION}
+								placeholderTextColor="#8a8680"
+								autoCapitalize="characters"
+								autoCorrect={false}
+								editable={!isDeleting}
+								className="mt-2 rounded-2xl border border-border bg-background px-4 py-3 font-sans text-base text-foreground"
+							/>
+							<View className="mt-3 flex-row gap-2">
+								<Pressable
+									onPress={() => setIsDeleteSheetOpen(false)}
+									disabled={isDeleting}
+									accessibilityRole="button"
+									className="flex-1 items-center rounded-2xl bg-surface py-4 disabled:opacity-50"
+								>
+									<Text className="font-sans-medium text-foreground">
+										Cancel
+									</Text>
+								</Pressable>
+								<Pressable
+									onPress={confirmDeletion}
+									disabled={!canDelete || isDeleting}
+									accessibilityRole="button"
+									className="flex-1 flex-row items-center justify-center gap-2 rounded-2xl bg-red-500/10 py-4 disabled:opacity-50"
+								>
+									{isDeleting && <ActivityIndicator />}
+									<Text className="font-sans-medium text-red-600">
+										Delete account
+									</Text>
+								</Pressable>
+							</View>
+						</View>
+					</BottomSheet.Content>
+				</BottomSheet.Portal>
+			</BottomSheet>
+		</>
+	);
+}
+
 export default function SettingsPage() {
 	const { user, signOut } = useAuth();
 	const { settings, updateSettings } = useSettings();
@@ -34,7 +606,11 @@ export default function SettingsPage() {
 					<Text className="font-sans text-base text-muted">{user?.email}</Text>
 				</View>
 			</View>
-			<View className="py-4 px-6 gap-2 mt-8">
+			<ScrollView
+				className="flex-1 mt-8"
+				contentContainerClassName="py-4 px-6 gap-2"
+				keyboardShouldPersistTaps="handled"
+			>
 				<Text className="text-xl font-sans mb-2">Settings</Text>
 				<Card>
 					<Card.Body className="flex-row justify-between items-center gap-4">
@@ -71,8 +647,15 @@ export default function SettingsPage() {
 						/>
 					</Card.Body>
 				</Card>
-			</View>
-			<Button className="mt-auto" onPress={signOut} variant="ghost">
+				<AssistantVoiceCard />
+				<HandsFreeCard />
+				<RecordingLengthCard />
+				<SpeechRecognitionCard />
+				<SpeechSynthesisCard />
+				<TrustedContactCard />
+				<YourDataSection />
+			</ScrollView>
+			<Button onPress={signOut} variant="ghost">
 				<StyledLogOutIcon size={20} className="text-danger" />
 				<Text className="text-danger font-sans text-base">Log Out</Text>
 			</Button>
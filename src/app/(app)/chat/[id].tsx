@@ -2,9 +2,16 @@ import { useLocalSearchParams } from "expo-router";
 import { ChatScreen } from "@/components/chat/ChatScreen";
 
 export default function ExistingChatRoute() {
-	const { id, chatTitle } = useLocalSearchParams<{
+	const { id, chatTitle, messageId } = useLocalSearchParams<{
 		id: string;
 		chatTitle: string;
+		messageId?: string;
 	}>();
-	return <ChatScreen initialSessionId={id} chatTitle={chatTitle} />;
+	return (
+		<ChatScreen
+			initialSessionId={id}
+			initialMessageId={messageId}
+			chatTitle={chatTitle}
+		/>
+	);
 }
@@ -1,12 +1,21 @@
+import * as Clipboard from "expo-clipboard";
 import { useRouter } from "expo-router";
 import { Button } from "heroui-native/button";
+import { useToast } from "heroui-native/toast";
 import {
 	ArrowLeftIcon,
 	ArrowUpIcon,
 	AudioLinesIcon,
+	CircleAlertIcon,
+	CircleCheckIcon,
+	CircleXIcon,
+	ClockIcon,
+	RefreshCwIcon,
 	SparklesIcon,
+	SquareIcon,
+	Volume2Icon,
 } from "lucide-react-native";
-import { useCallback, useEffect, useRef, useState } from "react";
+import { useCallback, useEffect, useMemo, useRef, useState } from "react";
 import {
 	ActivityIndicator,
 	FlatList,
@@ -19,200 +28,812 @@ import { KeyboardAvoidingView } from "react-native-keyboard-controller";
 import Animated, { FadeInDown, FadeOutDown } from "react-native-reanimated";
 import { SafeAreaView } from "react-native-safe-area-context";
 import { withUniwind } from "uniwind";
+import { MarkdownText } from "@/components/chat/MarkdownText";
+import { MessageActionSheet } from "@/components/chat/MessageActionSheet";
+import { CrisisBanner, CrisisCard } from "@/components/crisis/CrisisCard";
 import { useAuth } from "@/context/AuthContext";
-import { api, createChatWebSocketUrl } from "@/lib/api";
+import { useSettings } from "@/context/SettingsContext";
+import { getCachedMessages, setCachedMessages } from "@/lib/chat-cache";
+import {
+	deleteChatMessage,
+	getChatHistoryPage,
+	type HistoryMessage,
+} from "@/lib/chat-history";
+import {
+	CHAT_SOCKET_MAX_RETRIES,
+	type ChatSocketEvent,
+	type ChatSocketState,
+	useChatSocket,
+} from "@/lib/chat-socket";
+import {
+	addOutboxMessage,
+	assignOutboxSession,
+	getOutboxMessages,
+	type OutboxMessage,
+	removeOutboxMessage,
+} from "@/lib/outbox";
+import { useReadAloud } from "@/lib/speech-synthesis";
 
 const StyledSafeAreaView = withUniwind(SafeAreaView);
 const StyledArrowLeftIcon = withUniwind(ArrowLeftIcon);
 const StyledArrowUpIcon = withUniwind(ArrowUpIcon);
 const StyledSparklesIcon = withUniwind(SparklesIcon);
 const StyledAudioLines = withUniwind(AudioLinesIcon);
+const StyledClockIcon = withUniwind(ClockIcon);
+const StyledCircleAlertIcon = withUniwind(CircleAlertIcon);
+const StyledCircleCheckIcon = withUniwind(CircleCheckIcon);
+const StyledCircleXIcon = withUniwind(CircleXIcon);
+const StyledRefreshCwIcon = withUniwind(RefreshCwIcon);
+const StyledSquareIcon = withUniwind(SquareIcon);
+const StyledVolume2Icon = withUniwind(Volume2Icon);
 
-type ChatMessage = { id: string; role: "user" | "assistant"; content: string };
-type HistoryMessage = {
+const RECOVERY_HISTORY_LIMIT = 20;
+const RECOVERY_ATTEMPTS = 3;
+const RECOVERY_RETRY_DELAY_MS = 2000;
+
+type ChatMessage = {
+	id: string;
+	role: "user" | "assistant";
+	content: string;
+	/**
+	 * `pending` marks user messages still waiting in the outbox, `failed`
+	 * one the server never received, `streaming` the assistant reply being
+	 * received, and `interrupted` one cut off by a dropped connection.
+	 */
+	status?: "pending" | "failed" | "streaming" | "interrupted";
+	/** `crisis` replies are rendered as a crisis-support card. */
+	kind?: "crisis";
+	/** Created in this session, so `id` is not the id the server stored. */
+	isLocal?: boolean;
+};
+type SentMessage = {
 	id: string;
-	role: "user" | "ai" | "assistant";
 	content: string;
 };
-type ChatSocketEvent = {
-	layer:
-		| "session_id"
-		| "immediate"
-		| "rag"
-		| "emergency"
-		| "irrelevant"
-		| "transcript"
-		| "audio";
-	content?: string;
-	final?: boolean;
+type InterruptedReply = {
+	userMessage: SentMessage;
+	assistantMessageId: string | null;
 };
 
 function createLocalId() {
 	return `${Date.now()}-${Math.random().toString(36).slice(2)}`;
 }
 
+function toChatMessage(message: HistoryMessage): ChatMessage {
+	return {
+		id: message.id,
+		role: message.role === "user" ? "user" : "assistant",
+		content: message.content,
+	};
+}
+
+function wait(durationMillis: number) {
+	return new Promise((resolve) => setTimeout(resolve, durationMillis));
+}
+
+type StoredExchange = { userMessage: ChatMessage; replies: ChatMessage[] };
+
+/**
+ * Fetches what the server stored for the latest exchange: the latest user
+ * message and the replies after it. Null when that message is not
+ * `userContent`, so it is not the one sent.
+ */
+async function fetchStoredExchange(
+	sessionId: string,
+	userContent: string,
+): Promise<StoredExchange | null> {
+	const page = await getChatHistoryPage(sessionId, {
+		limit: RECOVERY_HISTORY_LIMIT,
+	});
+	const recent = page.messages.map(toChatMessage);
+	let userIndex = recent.length - 1;
+	while (userIndex >= 0 && recent[userIndex].role !== "user") userIndex -= 1;
+	if (userIndex < 0 || recent[userIndex].content !== userContent) return null;
+
+	return {
+		userMessage: recent[userIndex],
+		replies: recent.slice(userIndex + 1),
+	};
+}
+
 export function ChatScreen({
 	initialSessionId,
+	initialMessageId,
 	initialQuery,
 	chatTitle,
 }: {
 	initialSessionId?: string;
+	/** Message to open the conversation at, e.g. a search result. */
+	initialMessageId?: string;
 	initialQuery?: string;
 	chatTitle?: string;
 }) {
 	const router = useRouter();
 	const { session } = useAuth();
+	const { toast } = useToast();
 	const [messages, setMessages] = useState<ChatMessage[]>([]);
 	const [draft, setDraft] = useState(initialQuery ?? "");
 	const [isLoadingHistory, setIsLoadingHistory] = useState(
 		Boolean(initialSessionId),
 	);
-	const [isConnecting, setIsConnecting] = useState(true);
 	const [isResponding, setIsResponding] = useState(false);
+	const [hasEarlierMessages, setHasEarlierMessages] = useState(false);
+	const [isLoadingEarlier, setIsLoadingEarlier] = useState(false);
+	const [outbox, setOutbox] = useState<OutboxMessage[]>([]);
 	const [connectionError, setConnectionError] = useState<string | null>(null);
 	const [statusText, setStatusText] = useState<string | null>(null);
-	const socketRef = useRef<WebSocket | null>(null);
+	const [hasShownCrisisSupport, setHasShownCrisisSupport] = useState(false);
+	const [selectedMessage, setSelectedMessage] = useState<ChatMessage | null>(
+		null,
+	);
+	const [isActionSheetOpen, setIsActionSheetOpen] = useState(false);
+	const { settings } = useSettings();
+	const {
+		isAvailable: canReadAloud,
+		readingId,
+		read: readAloud,
+		stop: stopReadingAloud,
+	} = useReadAloud(settings.onDeviceSpeechSynthesis);
 	const activeSessionIdRef = useRef(initialSessionId);
 	const activeAssistantMessageIdRef = useRef<string | null>(null);
 	const listRef = useRef<FlatList<ChatMessage>>(null);
+	// Mirrors of state read from socket callbacks, which may run before the
+	// next render.
+	const outboxRef = useRef<OutboxMessage[]>([]);
+	const isRespondingRef = useRef(false);
+	const isHistoryReadyRef = useRef(!initialSessionId);
+	const lastSentMessageRef = useRef<SentMessage | null>(null);
+	const interruptedReplyRef = useRef<InterruptedReply | null>(null);
+	const isRecoveringRef = useRef(false);
+	// Set between stopping a reply and the server's `final` for it.
+	const isCancellingRef = useRef(false);
+	// Id of the oldest history message shown, the cursor for the next page.
+	const oldestHistoryIdRef = useRef<string | null>(null);
+	const isPrependingRef = useRef(false);
+	// Message still to be scrolled to once it has loaded. Until the user
+	// sends something, the list then stays there instead of following the
+	// latest message.
+	const scrollTargetIdRef = useRef(initialMessageId ?? null);
+	const isFollowingLatestRef = useRef(!initialMessageId);
 
-	const appendAssistantText = useCallback((content: string) => {
-		if (!content) return;
-		setMessages((current) => {
-			const activeId = activeAssistantMessageIdRef.current;
-			if (activeId)
-				return current.map((message) =>
-					message.id === activeId
-						? { ...message, content: message.content + content }
-						: message,
-				);
-			const id = createLocalId();
-			activeAssistantMessageIdRef.current = id;
-			return [...current, { id, role: "assistant", content }];
+	const updateResponding = useCallback((value: boolean) => {
+		isRespondingRef.current = value;
+		setIsResponding(value);
+	}, []);
+
+	const updateOutbox = useCallback((next: OutboxMessage[]) => {
+		outboxRef.current = next;
+		setOutbox(next);
+	}, []);
+
+	const {
+		state: socketState,
+		send,
+		reconnect,
+	} = useChatSocket(session, {
+		onEvent: (event) => handleSocketEvent(event),
+		onStatusChange: (state) => handleSocketStatusChange(state),
+		onInvalidEvent: () => {
+			setConnectionError(
+				"The chat service sent an invalid response. Please try again.",
+			);
+			updateResponding(false);
+		},
+	});
+	const isConnecting =
+		socketState.status === "connecting" ||
+		socketState.status === "reconnecting";
+
+	// Sends the oldest queued message once the socket is open and the
+	// previous reply has finished, so queued messages keep their order.
+	function flushOutbox() {
+		const [next, ...rest] = outboxRef.current;
+		if (
+			!next ||
+			isRespondingRef.current ||
+			isCancellingRef.current ||
+			!isHistoryReadyRef.current
+		)
+			return;
+		const sent = send({
+			content: next.content,
+			session_id: next.sessionId ?? activeSessionIdRef.current,
 		});
+		if (!sent) return;
+		activeAssistantMessageIdRef.current = null;
+		lastSentMessageRef.current = { id: next.id, content: next.content };
+		updateOutbox(rest);
+		removeOutboxMessage(next.id);
+		setMessages((current) => [
+			...current,
+			{ id: next.id, role: "user", content: next.content, isLocal: true },
+		]);
+		updateResponding(true);
+		setStatusText("Thinking...");
+	}
+
+	const appendAssistantText = useCallback(
+		(content: string, kind?: ChatMessage["kind"]) => {
+			// A crisis card is shown even before any of its text arrives.
+			if (!content && !kind) return;
+			setMessages((current) => {
+				const activeId = activeAssistantMessageIdRef.current;
+				const active = current.find((message) => message.id === activeId);
+				if (active && active.kind === kind)
+					return current.map((message) =>
+						message.id === activeId
+							? { ...message, content: message.content + content }
+							: message,
+					);
+				// A reply switching kind starts a new message.
+				const id = createLocalId();
+				activeAssistantMessageIdRef.current = id;
+				return [
+					...current.map((message) =>
+						message.id === activeId
+							? { ...message, status: undefined }
+							: message,
+					),
+					{
+						id,
+						role: "assistant",
+						content,
+						kind,
+						status: "streaming",
+						isLocal: true,
+					},
+				];
+			});
+		},
+		[],
+	);
+
+	const finishAssistantMessage = useCallback(() => {
+		const activeId = activeAssistantMessageIdRef.current;
+		activeAssistantMessageIdRef.current = null;
+		if (!activeId) return;
+		setMessages((current) =>
+			current.map((message) =>
+				message.id === activeId ? { ...message, status: undefined } : message,
+			),
+		);
 	}, []);
 
-	useEffect(() => {
-		if (!session) return;
-		const connectionUrl = createChatWebSocketUrl(session);
-		const socket = new WebSocket(connectionUrl);
-		socketRef.current = socket;
-		socket.onopen = () => setIsConnecting(false);
-		socket.onmessage = (event) => {
+	function handleSocketEvent(message: ChatSocketEvent) {
+		if (message.layer === "session_id") {
+			activeSessionIdRef.current = message.content;
+			const unassignedIds = outboxRef.current
+				.filter((queued) => queued.sessionId === null)
+				.map((queued) => queued.id);
+			if (unassignedIds.length > 0) {
+				updateOutbox(
+					outboxRef.current.map((queued) =>
+						queued.sessionId === null
+							? { ...queued, sessionId: message.content }
+							: queued,
+					),
+				);
+				assignOutboxSession(unassignedIds, message.content);
+			}
+		}
+		// Frames still in flight for a stopped reply are dropped until the
+		// server confirms the cancel with `final`.
+		if (isCancellingRef.current) {
+			if (message.layer === "emergency") setHasShownCrisisSupport(true);
+			if (message.final) {
+				isCancellingRef.current = false;
+				if (lastSentMessageRef.current)
+					adoptStoredExchange(lastSentMessageRef.current);
+				flushOutbox();
+			}
+			return;
+		}
+		if (message.layer === "immediate")
+			setStatusText(message.content ?? "Thinking...");
+		if (message.layer === "rag") {
+			setStatusText(null);
+			appendAssistantText(message.content ?? "");
+		}
+		if (message.layer === "emergency") {
+			setStatusText(null);
+			setHasShownCrisisSupport(true);
+			appendAssistantText(message.content ?? "", "crisis");
+		}
+		if (message.layer === "irrelevant") {
+			setStatusText(null);
+			appendAssistantText(message.content ?? "");
+		}
+		if (message.final) {
+			finishAssistantMessage();
+			updateResponding(false);
+			setStatusText(null);
+			if (lastSentMessageRef.current)
+				adoptStoredExchange(lastSentMessageRef.current);
+			flushOutbox();
+		}
+	}
+
+	// Replaces the local copies of an exchange with the server's, so its
+	// messages carry the ids the server stored them under.
+	function replaceWithStoredExchange(
+		sent: SentMessage,
+		exchange: StoredExchange,
+	) {
+		setMessages((current) => {
+			const userIndex = current.findIndex((message) => message.id === sent.id);
+			if (userIndex === -1) return current;
+			let end = userIndex + 1;
+			while (end < current.length && current[end].role === "assistant")
+				end += 1;
+			// Replies the server hasn't stored yet stay as they are. Stored
+			// ones keep how they were shown, such as a crisis card.
+			const localReplies = current.slice(userIndex + 1, end);
+			const replies =
+				exchange.replies.length > 0
+					? exchange.replies.map((reply, index) => ({
+							...reply,
+							kind: localReplies[index]?.kind,
+						}))
+					: localReplies;
+			return [
+				...current.slice(0, userIndex),
+				exchange.userMessage,
+				...replies,
+				...current.slice(end),
+			];
+		});
+	}
+
+	// Adopts the server's copy of an exchange once its reply has ended,
+	// whether it finished or was stopped.
+	function adoptStoredExchange(sent: SentMessage) {
+		const sessionId = activeSessionIdRef.current;
+		if (!sessionId) return;
+		fetchStoredExchange(sessionId, sent.content)
+			.then((exchange) => {
+				if (exchange) replaceWithStoredExchange(sent, exchange);
+			})
+			.catch(() => {
+				// The local copies stay until the conversation is next loaded.
+			});
+	}
+
+	// Stops the reply being streamed, keeping the text received so far.
+	function stopReply() {
+		if (!isRespondingRef.current) return;
+		isCancellingRef.current = send({
+			type: "cancel",
+			session_id: activeSessionIdRef.current,
+		});
+		finishAssistantMessage();
+		updateResponding(false);
+		setStatusText(null);
+	}
+
+	// After a reconnect, replaces the partial reply built by
+	// appendAssistantText with the one the server finished and stored.
+	async function recoverInterruptedReply(interrupted: InterruptedReply) {
+		const sessionId = activeSessionIdRef.current;
+		isRecoveringRef.current = true;
+		updateResponding(true);
+		setStatusText("Recovering the last reply…");
+
+		let stored: StoredExchange | null = null;
+		for (let attempt = 1; sessionId && !stored; attempt += 1) {
 			try {
-				const message = JSON.parse(event.data) as ChatSocketEvent;
-				if (message.layer === "session_id" && message.content)
-					activeSessionIdRef.current = message.content;
-				if (message.layer === "immediate")
-					setStatusText(message.content ?? "Thinking...");
-				if (message.layer === "rag") {
-					setStatusText(null);
-					appendAssistantText(message.content ?? "");
-				}
-				if (message.layer === "emergency" || message.layer === "irrelevant") {
-					setStatusText(null);
-					appendAssistantText(message.content ?? "");
-				}
-				if (message.final) {
-					activeAssistantMessageIdRef.current = null;
-					setIsResponding(false);
-					setStatusText(null);
-				}
-			} catch {
-				setConnectionError(
-					"The chat service sent an invalid response. Please try again.",
+				const exchange = await fetchStoredExchange(
+					sessionId,
+					interrupted.userMessage.content,
 				);
-				setIsResponding(false);
+				if (exchange && exchange.replies.length > 0) stored = exchange;
+			} catch {
+				// Treated like a missing reply and retried below.
 			}
-		};
-		socket.onerror = () => {
+			if (stored || attempt === RECOVERY_ATTEMPTS) break;
+			await wait(RECOVERY_RETRY_DELAY_MS);
+		}
+
+		if (stored) {
+			// The partial reply follows the user message, so both are replaced.
+			replaceWithStoredExchange(interrupted.userMessage, stored);
+		} else if (!interrupted.assistantMessageId) {
+			// The message never reached the server; offer to send it again.
+			setMessages((current) =>
+				current.map((message) =>
+					message.id === interrupted.userMessage.id
+						? { ...message, status: "failed" }
+						: message,
+				),
+			);
+		}
+
+		isRecoveringRef.current = false;
+		updateResponding(false);
+		setStatusText(null);
+		flushOutbox();
+	}
+
+	function handleSocketStatusChange(state: ChatSocketState) {
+		if (state.status === "open") {
+			setConnectionError(null);
+			const interrupted = interruptedReplyRef.current;
+			interruptedReplyRef.current = null;
+			if (interrupted) recoverInterruptedReply(interrupted);
+			else flushOutbox();
+			return;
+		}
+		// No `final` will arrive for a cancelled reply on a dropped connection.
+		isCancellingRef.current = false;
+		// A dropped connection ends the reply in progress; remember it so
+		// it can be recovered once the socket is back.
+		const assistantMessageId = activeAssistantMessageIdRef.current;
+		if (
+			isRespondingRef.current &&
+			!isRecoveringRef.current &&
+			lastSentMessageRef.current
+		) {
+			interruptedReplyRef.current = {
+				userMessage: lastSentMessageRef.current,
+				assistantMessageId,
+			};
+			if (assistantMessageId)
+				setMessages((current) =>
+					current.map((message) =>
+						message.id === assistantMessageId
+							? { ...message, status: "interrupted" }
+							: message,
+					),
+				);
+		}
+		activeAssistantMessageIdRef.current = null;
+		if (!isRecoveringRef.current) updateResponding(false);
+		if (state.status === "closed")
 			setConnectionError(
 				"Couldn't connect to Dear AI. Check your connection and try again.",
 			);
-			setIsConnecting(false);
-			setIsResponding(false);
-		};
-		socket.onclose = () => {
-			if (socketRef.current === socket) setIsConnecting(false);
-		};
+	}
+
+	useEffect(() => {
+		let cancelled = false;
+		getOutboxMessages(initialSessionId ?? null).then((pending) => {
+			if (cancelled) return;
+			const queuedIds = new Set(outboxRef.current.map((queued) => queued.id));
+			updateOutbox(
+				[
+					...pending.filter((queued) => !queuedIds.has(queued.id)),
+					...outboxRef.current,
+				].sort((a, b) => a.createdAt - b.createdAt),
+			);
+			flushOutbox();
+		});
 		return () => {
-			socket.close();
-			if (socketRef.current === socket) socketRef.current = null;
+			cancelled = true;
 		};
-	}, [appendAssistantText, session]);
+	}, [initialSessionId]);
 
 	useEffect(() => {
 		if (!initialSessionId) return;
 		let cancelled = false;
-		api
-			.get<HistoryMessage[]>(`/api/chats/${initialSessionId}`, {
-				params: { limit: 100 },
+		let hasCachedMessages = false;
+		// Show the cached conversation first, then replace it with the latest
+		// page from the server.
+		getCachedMessages(initialSessionId)
+			.then((cached) => {
+				if (cancelled || !cached || cached.length === 0) return;
+				hasCachedMessages = true;
+				oldestHistoryIdRef.current = cached[0].id;
+				setMessages(cached.map(toChatMessage));
+				setIsLoadingHistory(false);
 			})
-			.then((response) => {
-				if (!cancelled)
-					setMessages(
-						response.data.map((message) => ({
-							id: message.id,
-							role: message.role === "user" ? "user" : "assistant",
-							content: message.content,
-						})),
-					);
+			.then(() => getChatHistoryPage(initialSessionId))
+			.then((page) => {
+				if (cancelled) return;
+				oldestHistoryIdRef.current = page.messages[0]?.id ?? null;
+				setHasEarlierMessages(page.hasMore);
+				setMessages(page.messages.map(toChatMessage));
 			})
 			.catch(() => {
-				if (!cancelled) setConnectionError("Unable to load this conversation.");
+				if (!cancelled && !hasCachedMessages)
+					setConnectionError("Unable to load this conversation.");
 			})
 			.finally(() => {
-				if (!cancelled) setIsLoadingHistory(false);
+				if (cancelled) return;
+				setIsLoadingHistory(false);
+				isHistoryReadyRef.current = true;
+				flushOutbox();
 			});
 		return () => {
 			cancelled = true;
 		};
 	}, [initialSessionId]);
 
-	const sendMessage = useCallback(() => {
+	// Save the conversation once a reply has finished streaming. Messages
+	// created in this session are left out until the server's copy loads, so
+	// a pending or failed one never looks delivered after a restart.
+	useEffect(() => {
+		const sessionId = activeSessionIdRef.current;
+		if (!sessionId || isLoadingHistory || isResponding || messages.length === 0)
+			return;
+		setCachedMessages(
+			sessionId,
+			messages
+				.filter((message) => !message.isLocal && !message.status)
+				.map(({ id, role, content }) => ({ id, role, content })),
+		);
+	}, [isLoadingHistory, isResponding, messages]);
+
+	const loadEarlierMessages = useCallback(async () => {
+		const before = oldestHistoryIdRef.current;
+		if (!initialSessionId || !before || !hasEarlierMessages || isLoadingEarlier)
+			return;
+		setIsLoadingEarlier(true);
+		try {
+			const page = await getChatHistoryPage(initialSessionId, { before });
+			oldestHistoryIdRef.current = page.messages[0]?.id ?? before;
+			setHasEarlierMessages(page.hasMore && page.messages.length > 0);
+			isPrependingRef.current = true;
+			setMessages((current) => {
+				const shownIds = new Set(current.map((message) => message.id));
+				return [
+					...page.messages
+						.filter((message) => !shownIds.has(message.id))
+						.map(toChatMessage),
+					...current,
+				];
+			});
+		} catch {
+			setConnectionError("Unable to load earlier messages.");
+		} finally {
+			setIsLoadingEarlier(false);
+		}
+	}, [hasEarlierMessages, initialSessionId, isLoadingEarlier]);
+
+	// Every message goes through the outbox, so one composed while
+	// disconnected is kept until the socket is back.
+	function enqueueMessage(content: string) {
+		isFollowingLatestRef.current = true;
+		const queued: OutboxMessage = {
+			id: createLocalId(),
+			content,
+			sessionId: activeSessionIdRef.current ?? null,
+			createdAt: Date.now(),
+		};
+		updateOutbox([...outboxRef.current, queued]);
+		addOutboxMessage(queued);
+		flushOutbox();
+	}
+
+	function sendMessage() {
 		const content = draft.trim();
-		const socket = socketRef.current;
-		if (
-			!content ||
-			!socket ||
-			socket.readyState !== WebSocket.OPEN ||
-			isResponding
-		)
+		if (!content || isResponding) return;
+		setDraft("");
+		enqueueMessage(content);
+	}
+
+	// Scrolls to the message the conversation was opened at, loading older
+	// pages until it turns up.
+	function scrollToTargetMessage() {
+		const targetId = scrollTargetIdRef.current;
+		// Outbox items follow the messages, so indexes match the list's.
+		const index = messages.findIndex((message) => message.id === targetId);
+		if (index !== -1) {
+			scrollTargetIdRef.current = null;
+			listRef.current?.scrollToIndex({
+				index,
+				viewPosition: 0.3,
+				animated: false,
+			});
+		} else if (isHistoryReadyRef.current) {
+			// Before that, only the cached messages are shown.
+			if (hasEarlierMessages) loadEarlierMessages();
+			else scrollTargetIdRef.current = null;
+		}
+	}
+
+	function copyMessage(message: ChatMessage) {
+		Clipboard.setStringAsync(message.content)
+			.then(() =>
+				toast.show({
+					variant: "success",
+					label: "Copied to clipboard",
+					icon: <StyledCircleCheckIcon className="text-success" />,
+				}),
+			)
+			.catch((error) => {
+				console.warn("Unable to copy message:", error);
+			});
+	}
+
+	function retryMessage(message: ChatMessage) {
+		setMessages((current) =>
+			current.filter((candidate) => candidate.id !== message.id),
+		);
+		enqueueMessage(message.content);
+	}
+
+	// Asks the server for a new reply to the latest user message, replacing
+	// the replies shown after it.
+	function regenerateReply() {
+		const sessionId = activeSessionIdRef.current;
+		let userIndex = messages.length - 1;
+		while (userIndex >= 0 && messages[userIndex].role !== "user")
+			userIndex -= 1;
+		const userMessage = messages[userIndex];
+		if (!sessionId || !userMessage || isRespondingRef.current) return;
+
+		const sent = send({
+			content: userMessage.content,
+			session_id: sessionId,
+			regenerate: true,
+		});
+		if (!sent) {
+			toast.show({
+				variant: "danger",
+				label: "Unable to regenerate reply",
+				description: "Please check your connection and try again.",
+				icon: <StyledCircleXIcon className="text-danger" />,
+			});
 			return;
+		}
+		const replacedIds = new Set(
+			messages.slice(userIndex + 1).map((message) => message.id),
+		);
 		activeAssistantMessageIdRef.current = null;
-		setMessages((current) => [
-			...current,
-			{ id: createLocalId(), role: "user", content },
-		]);
-		setDraft("");
-		setIsResponding(true);
+		lastSentMessageRef.current = {
+			id: userMessage.id,
+			content: userMessage.content,
+		};
+		setMessages((current) =>
+			current.filter((message) => !replacedIds.has(message.id)),
+		);
+		updateResponding(true);
 		setStatusText("Thinking...");
-		socket.send(
-			JSON.stringify({ content, session_id: activeSessionIdRef.current }),
+	}
+
+	// Removes the message straight away and puts it back if the server
+	// could not delete it.
+	async function deleteMessage(message: ChatMessage) {
+		if (message.status === "pending") {
+			updateOutbox(
+				outboxRef.current.filter((queued) => queued.id !== message.id),
+			);
+			removeOutboxMessage(message.id);
+			return;
+		}
+
+		const sessionId = activeSessionIdRef.current;
+		// Until the server's copy has loaded there is no id to delete it by.
+		if (message.isLocal && message.status !== "failed") {
+			toast.show({
+				variant: "danger",
+				label: "Unable to delete message",
+				description: "It's still being saved. Please try again in a moment.",
+				icon: <StyledCircleXIcon className="text-danger" />,
+			});
+			return;
+		}
+
+		const index = messages.findIndex(
+			(candidate) => candidate.id === message.id,
 		);
-	}, [draft, isResponding]);
+		setMessages((current) =>
+			current.filter((candidate) => candidate.id !== message.id),
+		);
+		if (!sessionId || message.status === "failed") return;
+
+		try {
+			await deleteChatMessage(sessionId, message.id);
+		} catch {
+			setMessages((current) => [
+				...current.slice(0, index),
+				message,
+				...current.slice(index),
+			]);
+			toast.show({
+				variant: "danger",
+				label: "Unable to delete message",
+				description: "Please check your connection and try again.",
+				icon: <StyledCircleXIcon className="text-danger" />,
+			});
+		}
+	}
+
+	const listData = useMemo<ChatMessage[]>(
+		() => [
+			...messages,
+			...outbox.map((queued) => ({
+				id: queued.id,
+				role: "user" as const,
+				content: queued.content,
+				status: "pending" as const,
+			})),
+		],
+		[messages, outbox],
+	);
 
 	const renderMessage = useCallback(
-		({ item }: { item: ChatMessage }) => (
-			<View
-				className={`mb-3 ${item.role === "user" ? "items-end" : "items-start"}`}
-			>
+		({ item }: { item: ChatMessage }) =>
+			item.kind === "crisis" ? (
+				<View className="mb-3">
+					<CrisisCard
+						message={item.content}
+						isStreaming={item.status === "streaming"}
+					/>
+				</View>
+			) : (
 				<View
-					className={`max-w-[86%] rounded-3xl px-4 py-3 ${item.role === "user" ? "bg-accent rounded-br-md" : "bg-surface border border-border rounded-bl-md"}`}
+					className={`mb-3 ${item.role === "user" ? "items-end" : "items-start"} ${item.id === initialMessageId ? "-mx-2 rounded-3xl bg-accent/10 p-2" : ""}`}
 				>
-					<Text
-						className={
-							item.role === "user"
-								? "font-sans text-accent-foreground leading-6"
-								: "font-sans text-foreground leading-6"
-						}
+					<Pressable
+						onLongPress={() => {
+							if (item.status === "streaming") return;
+							setSelectedMessage(item);
+							setIsActionSheetOpen(true);
+						}}
+						accessibilityHint="Long press for message options"
+						className={`max-w-[86%] rounded-3xl px-4 py-3 ${item.role === "user" ? "bg-accent rounded-br-md" : "bg-surface border border-border rounded-bl-md"} ${item.status === "pending" ? "opacity-60" : ""}`}
 					>
-						{item.content}
-					</Text>
+						{item.role === "user" ? (
+							<Text className="font-sans text-accent-foreground leading-6">
+								{item.content}
+							</Text>
+						) : (
+							<MarkdownText
+								content={item.content}
+								isStreaming={
+									item.status === "streaming" || item.status === "interrupted"
+								}
+							/>
+						)}
+					</Pressable>
+					{item.status === "pending" && (
+						<View className="mt-1 flex-row items-center gap-1">
+							<StyledClockIcon className="text-muted" size={12} />
+							<Text className="font-sans text-xs text-muted">
+								Waiting to send
+							</Text>
+						</View>
+					)}
+					{item.status === "failed" && (
+						<View className="mt-1 flex-row items-center gap-1">
+							<StyledCircleAlertIcon className="text-danger" size={12} />
+							<Text className="font-sans text-xs text-danger">
+								Not delivered · Hold to retry
+							</Text>
+						</View>
+					)}
+					{item.status === "interrupted" && (
+						<View className="mt-1 flex-row items-center gap-1">
+							<StyledCircleAlertIcon className="text-muted" size={12} />
+							<Text className="font-sans text-xs text-muted">
+								Reply interrupted
+							</Text>
+						</View>
+					)}
+					{item.role === "assistant" && !item.status && canReadAloud && (
+						<Pressable
+							onPress={() =>
+								readingId === item.id
+									? stopReadingAloud()
+									: readAloud(item.id, item.content)
+							}
+							hitSlop={8}
+							accessibilityRole="button"
+							className="mt-1 flex-row items-center gap-1 px-1"
+						>
+							{readingId === item.id ? (
+								<StyledSquareIcon className="text-muted" size={12} />
+							) : (
+								<StyledVolume2Icon className="text-muted" size={12} />
+							)}
+							<Text className="font-sans text-xs text-muted">
+								{readingId === item.id ? "Stop reading" : "Read aloud"}
+							</Text>
+						</Pressable>
+					)}
 				</View>
-			</View>
-		),
-		[],
+			),
+		[canReadAloud, initialMessageId, readAloud, readingId, stopReadingAloud],
 	);
 
 	return (
@@ -235,6 +856,11 @@ export function ChatScreen({
 				behavior={"padding"}
 				keyboardVerticalOffset={8}
 			>
+				{hasShownCrisisSupport && (
+					<View className="pt-3">
+						<CrisisBanner />
+					</View>
+				)}
 				{isLoadingHistory ? (
 					<View className="flex-1 items-center justify-center">
 						<ActivityIndicator />
@@ -242,12 +868,59 @@ export function ChatScreen({
 				) : (
 					<FlatList
 						ref={listRef}
-						data={messages}
+						data={listData}
 						renderItem={renderMessage}
 						keyExtractor={(item) => item.id}
 						contentContainerClassName="px-5 py-5 flex-grow"
-						onContentSizeChange={() =>
-							listRef.current?.scrollToEnd({ animated: true })
+						// Keeps the visible message in place when older pages are
+						// prepended above it.
+						maintainVisibleContentPosition={{ minIndexForVisible: 0 }}
+						onStartReached={loadEarlierMessages}
+						onStartReachedThreshold={0.2}
+						onContentSizeChange={() => {
+							if (scrollTargetIdRef.current) {
+								isPrependingRef.current = false;
+								scrollToTargetMessage();
+								return;
+							}
+							if (isPrependingRef.current) {
+								isPrependingRef.current = false;
+								return;
+							}
+							if (isFollowingLatestRef.current)
+								listRef.current?.scrollToEnd({ animated: true });
+						}}
+						onScrollToIndexFailed={({ index, averageItemLength }) => {
+							// The target row hasn't been measured yet; get close,
+							// then retry once it has rendered.
+							listRef.current?.scrollToOffset({
+								offset: averageItemLength * index,
+								animated: false,
+							});
+							setTimeout(() => {
+								listRef.current?.scrollToIndex({
+									index,
+									viewPosition: 0.3,
+									animated: false,
+								});
+							}, 100);
+						}}
+						ListHeaderComponent={
+							isLoadingEarlier ? (
+								<View className="items-center pb-4">
+									<ActivityIndicator />
+								</View>
+							) : hasEarlierMessages ? (
+								<Pressable
+									onPress={loadEarlierMessages}
+									accessibilityRole="button"
+									className="items-center pb-4"
+								>
+									<Text className="font-sans-medium text-xs text-accent">
+										Load earlier messages
+									</Text>
+								</Pressable>
+							) : null
 						}
 						ListEmptyComponent={
 							<View className="flex-1 justify-center items-center px-8">
@@ -265,13 +938,30 @@ export function ChatScreen({
 					/>
 				)}
 				{(isConnecting || isResponding || connectionError) && (
-					<View className="px-5 pb-2">
+					<View className="px-5 pb-2 flex-row items-center gap-3">
 						<Text
-							className={`font-sans text-xs ${connectionError ? "text-danger" : "text-muted"}`}
+							className={`flex-1 font-sans text-xs ${connectionError ? "text-danger" : "text-muted"}`}
 						>
 							{connectionError ??
-								(isConnecting ? "Connecting…" : (statusText ?? "Thinking…"))}
+								(socketState.status === "reconnecting"
+									? `Reconnecting… (attempt ${socketState.attempt}/${CHAT_SOCKET_MAX_RETRIES})`
+									: isConnecting
+										? "Connecting…"
+										: (statusText ?? "Thinking…"))}
 						</Text>
+						{socketState.status === "closed" && (
+							<Pressable
+								onPress={reconnect}
+								hitSlop={8}
+								accessibilityRole="button"
+								className="flex-row items-center gap-1"
+							>
+								<StyledRefreshCwIcon className="text-accent" size={13} />
+								<Text className="font-sans-medium text-xs text-accent">
+									Try again
+								</Text>
+							</Pressable>
+						)}
 					</View>
 				)}
 				<View className="border-t border-border px-5 pt-3 pb-2 flex-row items-end gap-3 bg-background">
@@ -284,7 +974,25 @@ export function ChatScreen({
 						submitBehavior="newline"
 						autoFocus={!!initialQuery || !initialSessionId}
 					/>
-					{!draft.trim() ? (
+					{isResponding ? (
+						<Animated.View
+							entering={FadeInDown.springify().damping(400).mass(2)}
+							exiting={FadeOutDown.springify().damping(400).mass(2)}
+							key="stop"
+						>
+							<Button
+								isIconOnly
+								onPress={stopReply}
+								accessibilityLabel="Stop generating"
+								className="size-12 rounded-full bg-foreground"
+							>
+								<StyledSquareIcon
+									className="text-background size-4"
+									fill="currentColor"
+								/>
+							</Button>
+						</Animated.View>
+					) : !draft.trim() ? (
 						<Animated.View
 							entering={FadeInDown.springify().damping(400).mass(2)}
 							exiting={FadeOutDown.springify().damping(400).mass(2)}
@@ -293,13 +1001,16 @@ export function ChatScreen({
 							<Button
 								isIconOnly
 								onPress={() => {
-									if (initialSessionId) {
-										router.push({
+									// Replaced rather than pushed, so switching back and forth
+									// between voice and text doesn't stack screens.
+									const sessionId = activeSessionIdRef.current;
+									if (sessionId) {
+										router.replace({
 											pathname: "/voice/[id]",
-											params: { id: initialSessionId, chatTitle },
+											params: { id: sessionId, chatTitle },
 										});
 									} else {
-										router.push("/voice/new");
+										router.replace("/voice/new");
 									}
 								}}
 								isDisabled={isConnecting || isResponding}
@@ -317,8 +1028,8 @@ export function ChatScreen({
 							<Button
 								isIconOnly
 								onPress={sendMessage}
-								isDisabled={isConnecting || isResponding}
-								className={`size-12 rounded-full ${!draft.trim() || isConnecting || isResponding ? "bg-muted/50" : "bg-accent"}`}
+								isDisabled={isResponding}
+								className={`size-12 rounded-full ${!draft.trim() || isResponding ? "bg-muted/50" : "bg-accent"}`}
 							>
 								<StyledArrowUpIcon className="text-accent-foreground size-5" />
 							</Button>
@@ -326,6 +1037,29 @@ export function ChatScreen({
 					)}
 				</View>
 			</KeyboardAvoidingView>
+			<MessageActionSheet
+				isOpen={isActionSheetOpen}
+				onOpenChange={(isOpen) => {
+					setIsActionSheetOpen(isOpen);
+					if (!isOpen) setSelectedMessage(null);
+				}}
+				preview={selectedMessage?.content ?? ""}
+				onCopy={() => selectedMessage && copyMessage(selectedMessage)}
+				onRetry={
+					selectedMessage?.status === "failed" && !isResponding
+						? () => retryMessage(selectedMessage)
+						: undefined
+				}
+				onRegenerate={
+					selectedMessage?.role === "assistant" &&
+					selectedMessage.id === messages[messages.length - 1]?.id &&
+					outbox.length === 0 &&
+					!isResponding
+						? regenerateReply
+						: undefined
+				}
+				onDelete={() => selectedMessage && deleteMessage(selectedMessage)}
+			/>
 		</StyledSafeAreaView>
 	);
 }
@@ -0,0 +1,170 @@
+import { useRouter } from "expo-router";
+import { MessageCircleIcon, SearchIcon } from "lucide-react-native";
+import { useEffect, useState } from "react";
+import {
+	ActivityIndicator,
+	Pressable,
+	SectionList,
+	Text,
+	View,
+} from "react-native";
+import { withUniwind } from "uniwind";
+import {
+	createSnippet,
+	type SessionSearchResult,
+	searchConversations,
+	splitMatches,
+} from "@/lib/chat-search";
+
+const StyledMessageCircleIcon = withUniwind(MessageCircleIcon);
+const StyledSearchIcon = withUniwind(SearchIcon);
+
+const SEARCH_DEBOUNCE_MS = 300;
+
+function HighlightedText({
+	text,
+	query,
+	className,
+	numberOfLines,
+}: {
+	text: string;
+	query: string;
+	className: string;
+	numberOfLines?: number;
+}) {
+	return (
+		<Text numberOfLines={numberOfLines} className={className}>
+			{splitMatches(text, query).map((segment, index) =>
+				segment.isMatch ? (
+					<Text
+						key={`match-${index}`}
+						className="bg-accent/20 font-sans-semibold text-foreground"
+					>
+						{segment.text}
+					</Text>
+				) : (
+					segment.text
+				),
+			)}
+		</Text>
+	);
+}
+
+/**
+ * Search results for the Chats tab, grouped by conversation. Tapping a
+ * message opens its conversation scrolled to it.
+ */
+export function ChatSearchResults({ query }: { query: string }) {
+	const router = useRouter();
+	const [results, setResults] = useState<SessionSearchResult[]>([]);
+	const [resultsQuery, setResultsQuery] = useState("");
+	const [isSearching, setIsSearching] = useState(false);
+	const [isFromCache, setIsFromCache] = useState(false);
+
+	useEffect(() => {
+		let cancelled = false;
+		const timeout = setTimeout(() => {
+			setIsSearching(true);
+			searchConversations(query)
+				.then((searchResults) => {
+					if (cancelled) return;
+					setResults(searchResults.results);
+					setIsFromCache(searchResults.isFromCache);
+					setResultsQuery(query);
+				})
+				.finally(() => {
+					if (!cancelled) setIsSearching(false);
+				});
+		}, SEARCH_DEBOUNCE_MS);
+
+		return () => {
+			cancelled = true;
+			clearTimeout(timeout);
+		};
+	}, [query]);
+
+	const openConversation = (result: SessionSearchResult, messageId?: string) =>
+		router.push({
+			pathname: "/chat/[id]",
+			params: {
+				id: result.session.id,
+				chatTitle: result.session.title,
+				...(messageId ? { messageId } : {}),
+			},
+		});
+
+	// Nothing to show until the first results for this query arrive.
+	if (resultsQuery !== query && results.length === 0)
+		return (
+			<View className="flex-1 items-center justify-center">
+				<ActivityIndicator />
+			</View>
+		);
+
+	return (
+		<SectionList
+			sections={results.map((result) => ({ result, data: result.messages }))}
+			keyExtractor={(message) => message.id}
+			keyboardShouldPersistTaps="handled"
+			contentContainerClassName="px-5 pb-8"
+			stickySectionHeadersEnabled={false}
+			ListHeaderComponent={
+				isFromCache ? (
+					<Text className="mb-3 font-sans text-xs text-muted">
+						Search is unavailable, so these matches are from saved
+						conversations.
+					</Text>
+				) : null
+			}
+			renderSectionHeader={({ section }) => (
+				<Pressable
+					onPress={() => openConversation(section.result)}
+					accessibilityRole="button"
+					className="mt-3 flex-row items-center gap-3 py-2"
+				>
+					<View className="size-8 items-center justify-center rounded-full bg-accent/10">
+						<StyledMessageCircleIcon className="text-accent" size={16} />
+					</View>
+					<HighlightedText
+						text={section.result.session.title || "Untitled conversation"}
+						query={resultsQuery}
+						numberOfLines={1}
+						className="flex-1 font-sans-medium text-base text-foreground"
+					/>
+				</Pressable>
+			)}
+			renderItem={({ item, section }) => (
+				<Pressable
+					onPress={() => openConversation(section.result, item.id)}
+					accessibilityRole="button"
+					className="mb-2 rounded-2xl border border-border bg-surface px-4 py-3"
+				>
+					<Text className="font-sans-medium text-xs uppercase text-muted">
+						{item.role === "user" ? "You" : "Dear AI"}
+					</Text>
+					<HighlightedText
+						text={createSnippet(item.content, resultsQuery)}
+						query={resultsQuery}
+						numberOfLines={2}
+						className="mt-1 font-sans text-sm leading-5 text-foreground"
+					/>
+				</Pressable>
+			)}
+			ListEmptyComponent={
+				isSearching ? null : (
+					<View className="items-center px-8 pt-28">
+						<View className="size-16 items-center justify-center rounded-full bg-surface">
+							<StyledSearchIcon className="text-muted" size={28} />
+						</View>
+						<Text className="mt-5 font-sans-medium text-lg text-foreground">
+							No matches
+						</Text>
+						<Text className="mt-2 text-center font-sans text-muted">
+							Try a different word or phrase.
+						</Text>
+					</View>
+				)
+			}
+		/>
+	);
+}
@@ -0,0 +1,151 @@
+import * as WebBrowser from "expo-web-browser";
+import { Fragment, useMemo } from "react";
+import { Text, View } from "react-native";
+import {
+	type InlineNode,
+	type MarkdownBlock,
+	parseMarkdown,
+} from "@/lib/markdown";
+
+const HEADING_CLASS_NAMES = [
+	"text-xl font-sans-semibold",
+	"text-lg font-sans-semibold",
+	"text-base font-sans-semibold",
+];
+
+function openLink(href: string) {
+	WebBrowser.openBrowserAsync(href).catch((error) => {
+		console.warn("Unable to open link:", error);
+	});
+}
+
+function renderInline(nodes: InlineNode[]) {
+	return nodes.map((node, index) => {
+		const key = `${node.type}-${index}`;
+		switch (node.type) {
+			case "text":
+				return <Fragment key={key}>{node.text}</Fragment>;
+			case "strong":
+				return (
+					<Text key={key} className="font-sans-semibold">
+						{renderInline(node.children)}
+					</Text>
+				);
+			case "emphasis":
+				return (
+					<Text key={key} className="font-sans-italic">
+						{renderInline(node.children)}
+					</Text>
+				);
+			case "code":
+				return (
+					<Text key={key} className="bg-background font-sans text-sm">
+						{node.text}
+					</Text>
+				);
+			case "link":
+				// Only web links are opened; anything else stays plain text.
+				return /^https?:\/\//i.test(node.href) ? (
+					<Text
+						key={key}
+						className="text-accent underline"
+						accessibilityRole="link"
+						onPress={() => openLink(node.href)}
+					>
+						{renderInline(node.children)}
+					</Text>
+				) : (
+					<Fragment key={key}>{renderInline(node.children)}</Fragment>
+				);
+		}
+		return null;
+	});
+}
+
+function MarkdownBlocks({
+	blocks,
+	textClassName,
+}: {
+	blocks: MarkdownBlock[];
+	textClassName: string;
+}) {
+	return (
+		<View className="gap-2">
+			{blocks.map((block, index) => {
+				const key = `${block.type}-${index}`;
+				switch (block.type) {
+					case "paragraph":
+						return (
+							<Text key={key} className={textClassName}>
+								{renderInline(block.children)}
+							</Text>
+						);
+					case "heading":
+						return (
+							<Text
+								key={key}
+								accessibilityRole="header"
+								className={`${textClassName} ${HEADING_CLASS_NAMES[Math.min(block.level, 3) - 1]}`}
+							>
+								{renderInline(block.children)}
+							</Text>
+						);
+					case "list":
+						return (
+							<View key={key} className="gap-1">
+								{block.items.map((item, itemIndex) => (
+									<View key={`item-${itemIndex}`} className="flex-row gap-2">
+										<Text className={textClassName}>
+											{block.ordered ? `${block.start + itemIndex}.` : "•"}
+										</Text>
+										<Text className={`${textClassName} flex-1`}>
+											{renderInline(item)}
+										</Text>
+									</View>
+								))}
+							</View>
+						);
+					case "quote":
+						return (
+							<View key={key} className="border-l-2 border-accent/40 pl-3">
+								<MarkdownBlocks
+									blocks={block.blocks}
+									textClassName={`${textClassName} text-muted`}
+								/>
+							</View>
+						);
+					case "code":
+						return (
+							<View key={key} className="rounded-xl bg-background px-3 py-2">
+								<Text className="font-sans text-sm text-foreground">
+									{block.text}
+								</Text>
+							</View>
+						);
+				}
+				return null;
+			})}
+		</View>
+	);
+}
+
+/**
+ * Renders an assistant reply as markdown. Pass `isStreaming` while the reply
+ * is still arriving so half-received markup is not shown as raw symbols.
+ */
+export function MarkdownText({
+	content,
+	isStreaming = false,
+	textClassName = "font-sans text-foreground leading-6",
+}: {
+	content: string;
+	isStreaming?: boolean;
+	textClassName?: string;
+}) {
+	const blocks = useMemo(
+		() => parseMarkdown(content, { isStreaming }),
+		[content, isStreaming],
+	);
+
+	return <MarkdownBlocks blocks={blocks} textClassName={textClassName} />;
+}
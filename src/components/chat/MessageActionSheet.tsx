@@ -0,0 +1,140 @@
+import { BottomSheet } from "heroui-native/bottom-sheet";
+import {
+	CopyIcon,
+	RefreshCwIcon,
+	RotateCcwIcon,
+	Trash2Icon,
+} from "lucide-react-native";
+import type { ReactNode } from "react";
+import { Alert, Pressable, Text, View } from "react-native";
+import { withUniwind } from "uniwind";
+
+const StyledCopyIcon = withUniwind(CopyIcon);
+const StyledRefreshCwIcon = withUniwind(RefreshCwIcon);
+const StyledRotateCcwIcon = withUniwind(RotateCcwIcon);
+const StyledTrash2Icon = withUniwind(Trash2Icon);
+
+function ActionRow({
+	icon,
+	label,
+	onPress,
+	isDestructive = false,
+}: {
+	icon: ReactNode;
+	label: string;
+	onPress: () => void;
+	isDestructive?: boolean;
+}) {
+	return (
+		<Pressable
+			onPress={onPress}
+			accessibilityRole="button"
+			className={`flex-row items-center gap-3 rounded-2xl px-4 py-4 ${isDestructive ? "bg-red-500/10" : "bg-surface"}`}
+		>
+			{icon}
+			<Text
+				className={`font-sans-medium ${isDestructive ? "text-red-600" : "text-foreground"}`}
+			>
+				{label}
+			</Text>
+		</Pressable>
+	);
+}
+
+/**
+ * Long-press options for a chat message. Actions left undefined are hidden.
+ */
+export function MessageActionSheet({
+	isOpen,
+	onOpenChange,
+	preview,
+	onCopy,
+	onRetry,
+	onRegenerate,
+	onDelete,
+}: {
+	isOpen: boolean;
+	onOpenChange: (isOpen: boolean) => void;
+	preview: string;
+	onCopy: () => void;
+	onRetry?: () => void;
+	onRegenerate?: () => void;
+	onDelete: () => void;
+}) {
+	// Each action closes the sheet before it runs.
+	const close = (action: () => void) => () => {
+		onOpenChange(false);
+		action();
+	};
+
+	return (
+		<BottomSheet isOpen={isOpen} onOpenChange={onOpenChange}>
+			<BottomSheet.Portal>
+				<BottomSheet.Overlay />
+				<BottomSheet.Content>
+					<View className="px-5 pb-7 pt-2">
+						<BottomSheet.Title className="font-sans-medium text-lg text-foreground">
+							Message options
+						</BottomSheet.Title>
+						<BottomSheet.Description
+							numberOfLines={2}
+							className="mt-1 font-sans text-sm text-muted"
+						>
+							{preview}
+						</BottomSheet.Description>
+						<View className="mt-6 gap-2">
+							<ActionRow
+								icon={<StyledCopyIcon className="text-foreground" size={19} />}
+								label="Copy text"
+								onPress={close(onCopy)}
+							/>
+							{onRetry && (
+								<ActionRow
+									icon={
+										<StyledRotateCcwIcon
+											className="text-foreground"
+											size={19}
+										/>
+									}
+									label="Retry sending"
+									onPress={close(onRetry)}
+								/>
+							)}
+							{onRegenerate && (
+								<ActionRow
+									icon={
+										<StyledRefreshCwIcon
+											className="text-foreground"
+											size={19}
+										/>
+									}
+									label="Regenerate reply"
+									onPress={close(onRegenerate)}
+								/>
+							)}
+							<ActionRow
+								icon={<StyledTrash2Icon className="text-red-600" size={19} />}
+								label="Delete message"
+								isDestructive
+								onPress={() =>
+									Alert.alert(
+										"Delete message?",
+										"This will permanently remove the message from this conversation.",
+										[
+											{ text: "Cancel", style: "cancel" },
+											{
+												text: "Delete",
+												style: "destructive",
+												onPress: close(onDelete),
+											},
+										],
+									)
+								}
+							/>
+						</View>
+					</View>
+				</BottomSheet.Content>
+			</BottomSheet.Portal>
+		</BottomSheet>
+	);
+}
@@ -0,0 +1,235 @@
+import * as WebBrowser from "expo-web-browser";
+import {
+	ChevronDownIcon,
+	ChevronUpIcon,
+	GlobeIcon,
+	HeartHandshakeIcon,
+	MessageSquareIcon,
+	PhoneIcon,
+	UserRoundIcon,
+} from "lucide-react-native";
+import { type ReactNode, useState } from "react";
+import { Pressable, Text, View } from "react-native";
+import { withUniwind } from "uniwind";
+import { MarkdownText } from "@/components/chat/MarkdownText";
+import { useSettings } from "@/context/SettingsContext";
+import {
+	type CrisisLine,
+	callNumber,
+	getCrisisResources,
+	textNumber,
+} from "@/lib/crisis";
+
+const StyledChevronDownIcon = withUniwind(ChevronDownIcon);
+const StyledChevronUpIcon = withUniwind(ChevronUpIcon);
+const StyledGlobeIcon = withUniwind(GlobeIcon);
+const StyledHeartHandshakeIcon = withUniwind(HeartHandshakeIcon);
+const StyledMessageSquareIcon = withUniwind(MessageSquareIcon);
+const StyledPhoneIcon = withUniwind(PhoneIcon);
+const StyledUserRoundIcon = withUniwind(UserRoundIcon);
+
+function openAction(action: Promise<unknown>) {
+	action.catch((error) => {
+		console.warn("Unable to open crisis support:", error);
+	});
+}
+
+function ActionButton({
+	label,
+	accessibilityLabel,
+	icon,
+	onPress,
+}: {
+	label: string;
+	accessibilityLabel: string;
+	icon: ReactNode;
+	onPress: () => void;
+}) {
+	return (
+		<Pressable
+			onPress={onPress}
+			accessibilityRole="button"
+			accessibilityLabel={accessibilityLabel}
+			className="flex-row items-center gap-1.5 rounded-full bg-accent px-3 py-2"
+		>
+			{icon}
+			<Text className="font-sans-medium text-sm text-accent-foreground">
+				{label}
+			</Text>
+		</Pressable>
+	);
+}
+
+function CrisisLineRow({ line }: { line: CrisisLine }) {
+	const { phone, sms, url } = line;
+	return (
+		<View className="gap-2">
+			<View>
+				<Text className="font-sans-medium text-base text-foreground">
+					{line.name}
+				</Text>
+				<Text className="font-sans text-xs text-muted">{line.description}</Text>
+			</View>
+			<View className="flex-row flex-wrap gap-2">
+				{phone && (
+					<ActionButton
+						label="Call"
+						accessibilityLabel={`Call ${line.name}`}
+						icon={
+							<StyledPhoneIcon className="text-accent-foreground" size={14} />
+						}
+						onPress={() => openAction(callNumber(phone))}
+					/>
+				)}
+				{sms && (
+					<ActionButton
+						label="Text"
+						accessibilityLabel={`Text ${line.name}`}
+						icon={
+							<StyledMessageSquareIcon
+								className="text-accent-foreground"
+								size={14}
+							/>
+						}
+						onPress={() => openAction(textNumber(sms.number, sms.body))}
+					/>
+				)}
+				{url && (
+					<ActionButton
+						label="Open"
+						accessibilityLabel={`Open ${line.name}`}
+						icon={
+							<StyledGlobeIcon className="text-accent-foreground" size={14} />
+						}
+						onPress={() => openAction(WebBrowser.openBrowserAsync(url))}
+					/>
+				)}
+			</View>
+		</View>
+	);
+}
+
+/**
+ * Hotlines for the user's region, their trusted contact and the local
+ * emergency number.
+ */
+export function CrisisResourceList() {
+	const { settings } = useSettings();
+	const [resources] = useState(() => getCrisisResources());
+	const { trustedContact } = settings;
+
+	return (
+		<View className="gap-4">
+			{trustedContact && (
+				<View className="gap-2">
+					<View>
+						<Text className="font-sans-medium text-base text-foreground">
+							{trustedContact.name}
+						</Text>
+						<Text className="font-sans text-xs text-muted">
+							Your trusted contact
+						</Text>
+					</View>
+					<View className="flex-row flex-wrap gap-2">
+						<ActionButton
+							label="Call"
+							accessibilityLabel={`Call ${trustedContact.name}`}
+							icon={
+								<StyledUserRoundIcon
+									className="text-accent-foreground"
+									size={14}
+								/>
+							}
+							onPress={() => openAction(callNumber(trustedContact.phone))}
+						/>
+						<ActionButton
+							label="Text"
+							accessibilityLabel={`Text ${trustedContact.name}`}
+							icon={
+								<StyledMessageSquareIcon
+									className="text-accent-foreground"
+									size={14}
+								/>
+							}
+							onPress={() => openAction(textNumber(trustedContact.phone))}
+						/>
+					</View>
+				</View>
+			)}
+			{resources.lines.map((line) => (
+				<CrisisLineRow key={line.name} line={line} />
+			))}
+			<Pressable
+				onPress={() => openAction(callNumber(resources.emergencyNumber))}
+				accessibilityRole="button"
+				className="flex-row items-center justify-center gap-2 rounded-full border border-danger px-4 py-2.5"
+			>
+				<StyledPhoneIcon className="text-danger" size={14} />
+				<Text className="font-sans-medium text-sm text-danger">
+					In immediate danger? Call {resources.emergencyNumber}
+				</Text>
+			</Pressable>
+		</View>
+	);
+}
+
+/**
+ * Shown in place of an assistant reply when the chat service flags a
+ * message as an emergency.
+ */
+export function CrisisCard({
+	message,
+	isStreaming = false,
+}: {
+	message?: string;
+	isStreaming?: boolean;
+}) {
+	return (
+		<View
+			accessibilityRole="alert"
+			className="gap-4 rounded-3xl border border-accent/40 bg-surface px-4 py-4"
+		>
+			<View className="flex-row items-center gap-2">
+				<StyledHeartHandshakeIcon className="text-accent" size={20} />
+				<Text className="font-sans-semibold text-lg text-foreground">
+					You don&apos;t have to go through this alone
+				</Text>
+			</View>
+			{!!message && (
+				<MarkdownText content={message} isStreaming={isStreaming} />
+			)}
+			<CrisisResourceList />
+		</View>
+	);
+}
+
+/**
+ * Stays at the top of a conversation once crisis support has been shown, so
+ * the hotlines remain one tap away.
+ */
+export function CrisisBanner() {
+	const [isExpanded, setIsExpanded] = useState(false);
+	const ChevronIcon = isExpanded ? StyledChevronUpIcon : StyledChevronDownIcon;
+
+	return (
+		<View className="mx-5 mb-2 rounded-2xl border border-accent/40 bg-surface px-4 py-3">
+			<Pressable
+				onPress={() => setIsExpanded((current) => !current)}
+				accessibilityRole="button"
+				accessibilityState={{ expanded: isExpanded }}
+				className="flex-row items-center gap-2"
+			>
+				<StyledHeartHandshakeIcon className="text-accent" size={16} />
+				<Text className="flex-1 font-sans-medium text-sm text-foreground">
+					Support is available any time
+				</Text>
+				<ChevronIcon className="text-muted" size={16} />
+			</Pressable>
+			{isExpanded && (
+				<View className="mt-3">
+					<CrisisResourceList />
+				</View>
+			)}
+		</View>
+	);
+}
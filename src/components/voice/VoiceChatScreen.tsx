@@ -1,28 +1,42 @@
 import { faceCropper } from "@dearai/vision-camera-face-cropper";
 import {
 	AudioModule,
+	type AudioStreamBuffer,
 	RecordingPresets,
 	useAudioPlayer,
 	useAudioPlayerStatus,
 	useAudioRecorder,
-	useAudioRecorderState,
+	useAudioSampleListener,
+	useAudioStream,
 } from "expo-audio";
-import { EncodingType, File, Paths } from "expo-file-system";
 import { useRouter } from "expo-router";
+import { BottomSheet } from "heroui-native/bottom-sheet";
 import {
 	ArrowLeftIcon,
+	AudioLinesIcon,
 	FlowerIcon,
+	MessageSquareTextIcon,
 	MicIcon,
+	MicOffIcon,
 	PauseIcon,
+	PlayIcon,
 	SendIcon,
 	SquareIcon,
 } from "lucide-react-native";
 import { useCallback, useEffect, useRef, useState } from "react";
-import { Alert, Pressable, Text, View } from "react-native";
+import {
+	Alert,
+	AppState,
+	Pressable,
+	ScrollView,
+	Text,
+	View,
+} from "react-native";
 import {
 	ScalarType,
 	type TensorPtr,
 	useExecutorchModule,
+	useSpeechToText,
 } from "react-native-executorch";
 import { useSharedValue } from "react-native-reanimated";
 import { SafeAreaView } from "react-native-safe-area-context";
@@ -37,17 +51,71 @@ import {
 import { useFaceDetector } from "react-native-vision-camera-face-detector";
 import { scheduleOnRN } from "react-native-worklets";
 import { withUniwind } from "uniwind";
+import { CrisisBanner } from "@/components/crisis/CrisisCard";
+import {
+	VoiceLevelRing,
+	VoiceWaveform,
+} from "@/components/voice/VoiceLevelMeter";
+import { VoiceOptionsPicker } from "@/components/voice/VoiceOptionsPicker";
+import {
+	type VoiceTurn,
+	VoiceTurnCard,
+} from "@/components/voice/VoiceTurnCard";
 import { useAmbientMusic } from "@/context/AmbientMusicContext";
 import { useAudioSession } from "@/context/AudioSessionContext";
 import { useAuth } from "@/context/AuthContext";
 import { useSettings } from "@/context/SettingsContext";
-import { createChatWebSocketUrl } from "@/lib/api";
+import {
+	deleteAudioCacheFiles,
+	pruneAudioCache,
+	writeAudioCacheFile,
+} from "@/lib/audio-cache";
+import {
+	CHAT_SOCKET_MAX_RETRIES,
+	type ChatSocketEvent,
+	type ChatSocketState,
+	useChatSocket,
+} from "@/lib/chat-socket";
+import { toPlainText } from "@/lib/markdown";
+import { useMediaSession } from "@/lib/media-session";
+import {
+	createSentenceBuffer,
+	type SentenceBuffer,
+	useSpeechSynthesis,
+} from "@/lib/speech-synthesis";
+import {
+	BARGE_IN_DETECTION,
+	createInputLevelMonitor,
+	createVoiceActivityDetector,
+	getFrameLevel,
+	getMeterLevel,
+	getPcmLevel,
+	hasHeadsetInput,
+	type InputLevelMonitor,
+	type InputLevelWarning,
+	type VoiceActivityDetector,
+} from "@/lib/voice-activity";
+import { getVoiceOverride, setVoiceOverride } from "@/lib/voice-overrides";
+import {
+	createTranscribingUpload,
+	SPEECH_RECOGNITION_MODEL,
+} from "@/lib/voice-transcription";
+import {
+	createVoiceUpload,
+	VOICE_SAMPLE_RATE,
+	type VoiceUpload,
+} from "@/lib/voice-upload";
+import { describeVoiceOptions, type VoiceOptions } from "@/lib/voices";
 
 const StyledSafeAreaView = withUniwind(SafeAreaView);
 const StyledArrowLeftIcon = withUniwind(ArrowLeftIcon);
+const StyledAudioLinesIcon = withUniwind(AudioLinesIcon);
 const StyledFlowerIcon = withUniwind(FlowerIcon);
+const StyledMessageSquareTextIcon = withUniwind(MessageSquareTextIcon);
 const StyledMicIcon = withUniwind(MicIcon);
+const StyledMicOffIcon = withUniwind(MicOffIcon);
 const StyledPauseIcon = withUniwind(PauseIcon);
+const StyledPlayIcon = withUniwind(PlayIcon);
 const StyledSendIcon = withUniwind(SendIcon);
 const StyledSquareIcon = withUniwind(SquareIcon);
 
@@ -96,27 +164,28 @@ function getPredictedEmotion(logits: Float32Array): Emotion {
 	return EMOTIONS[bestIndex];
 }
 
-type VoiceSocketEvent = {
-	layer:
-		| "session_id"
-		| "transcript"
-		| "immediate"
-		| "rag"
-		| "audio"
-		| "emergency"
-		| "irrelevant";
-	content?: string;
-	audio?: string;
-	final?: boolean;
-};
-
-function formatDuration(durationMillis: number) {
-	const seconds = Math.floor(durationMillis / 1000);
+function formatDuration(seconds: number) {
 	return `${Math.floor(seconds / 60)}:${(seconds % 60).toString().padStart(2, "0")}`;
 }
 
-function createAudioFileName() {
-	return `dearai-voice-${Date.now()}-${Math.random().toString(36).slice(2)}.mp3`;
+// A countdown shows for the last seconds before a long recording is sent.
+const RECORDING_COUNTDOWN_SECONDS = 10;
+const INPUT_WARNING_TEXT: Record<InputLevelWarning, string> = {
+	clipping: "That's a bit loud. Try holding the phone further away.",
+	too_quiet: "It's very quiet. Try moving closer to the microphone.",
+};
+
+function createVoiceTurn(): VoiceTurn {
+	return {
+		id: `${Date.now()}-${Math.random().toString(36).slice(2)}`,
+		startedAt: Date.now(),
+		transcript: null,
+		respondedAt: null,
+		responseText: "",
+		audioUris: [],
+		isCrisis: false,
+		isInterrupted: false,
+	};
 }
 
 function EmotionCameraSession({
@@ -160,28 +229,136 @@ export function VoiceChatScreen({
 		return () => setVoiceSessionActive(false);
 	}, [setVoiceSessionActive]);
 
-	const recorder = useAudioRecorder(RecordingPresets.HIGH_QUALITY);
-	const recorderState = useAudioRecorderState(recorder, 100);
+	// Microphone and playback levels between 0 and 1, for the meters.
+	const inputLevel = useSharedValue(0);
+	const outputLevel = useSharedValue(0);
 	const player = useAudioPlayer(null);
 	const playerStatus = useAudioPlayerStatus(player);
-	const socketRef = useRef<WebSocket | null>(null);
+	useAudioSampleListener(player, (sample) => {
+		const frames = sample.channels[0]?.frames;
+		if (frames) outputLevel.set(getMeterLevel(getFrameLevel(frames)));
+	});
 	const audioQueueRef = useRef<string[]>([]);
+	// Every clip of this conversation, kept for replay until it closes.
+	const sessionAudioUrisRef = useRef<string[]>([]);
 	const isAudioPlayingRef = useRef(false);
+	const wasPlayerPlayingRef = useRef(false);
+	const handleMediaControlRef = useRef<
+		((isPlayerPlaying: boolean) => void) | null
+	>(null);
 	const activeSessionIdRef = useRef(initialSessionId);
 	const responseFinishedRef = useRef(false);
-	const hasAudioResponseRef = useRef(false);
-	const retryCountRef = useRef(0);
-	const retryTimeoutRef = useRef<ReturnType<typeof setTimeout> | null>(null);
-	const [isConnected, setIsConnected] = useState(false);
+	const uploadRef = useRef<VoiceUpload | null>(null);
+	const vadRef = useRef<VoiceActivityDetector | null>(null);
+	const inputMonitorRef = useRef<InputLevelMonitor | null>(null);
+	const recordingStartedAtRef = useRef<number | null>(null);
+	// Whether the open detector is waiting for the user to talk over a reply.
+	const isBargeInRef = useRef(false);
+	// Audio recorded after a recording reached its maximum length and was
+	// sent, held until the reply to that part ends and the rest can follow as
+	// the next turn. Complete once the user stops talking.
+	const continuationRef = useRef<{
+		buffers: AudioStreamBuffer[];
+		isComplete: boolean;
+	} | null>(null);
+	// Set after interrupting a reply, until the server ends it.
+	const isCancellingRef = useRef(false);
+	// Set once the connection drops during this conversation. With on-device
+	// speech recognition, later turns then send text instead of audio.
+	const isConnectionWeakRef = useRef(false);
+	// Gathers the reply into sentences to speak on the device; null once
+	// speech is stopped or the server's audio for the reply arrives.
+	const sentenceBufferRef = useRef<SentenceBuffer | null>(null);
+	// Sentences of the current reply, held until it ends without audio.
+	const heldSentencesRef = useRef<string[]>([]);
+	// Whether the server has sent audio for replies in this conversation;
+	// null until a reply has ended.
+	const doesServerSpeakRef = useRef<boolean | null>(null);
+	// On-device clips of the current reply that are still being generated.
+	const pendingSpeechRef = useRef(0);
+	// Bumped when on-device speech is stopped, so late clips are dropped.
+	const speechGenerationRef = useRef(0);
+	const handleBufferRef = useRef<((buffer: AudioStreamBuffer) => void) | null>(
+		null,
+	);
+	const sendContinuationRef = useRef<(() => void) | null>(null);
+	const [isListening, setIsListening] = useState(false);
 	const [isRecording, setIsRecording] = useState(false);
+	const [inputWarning, setInputWarning] = useState<InputLevelWarning | null>(
+		null,
+	);
+
+	useEffect(() => {
+		pruneAudioCache();
+		const sessionAudioUris = sessionAudioUrisRef.current;
+		return () => deleteAudioCacheFiles(sessionAudioUris);
+	}, []);
+	const [recordingSeconds, setRecordingSeconds] = useState(0);
 	const [isSending, setIsSending] = useState(false);
 	const [isPlaying, setIsPlaying] = useState(false);
+	// Set when the reply is paused from the media notification or lock screen.
+	const [isReplyHeld, setIsReplyHeld] = useState(false);
+	const [isInForeground, setIsInForeground] = useState(
+		AppState.currentState === "active",
+	);
 	const [statusText, setStatusText] = useState("Connecting to Dear AI...");
-	const [transcript, setTranscript] = useState<string | null>(null);
-	const [responseText, setResponseText] = useState<string | null>(null);
+	const [turns, setTurns] = useState<VoiceTurn[]>([]);
+	const [replayingTurnId, setReplayingTurnId] = useState<string | null>(null);
+	const timelineRef = useRef<ScrollView>(null);
+	const [hasShownCrisisSupport, setHasShownCrisisSupport] = useState(false);
+	const [conversationVoice, setConversationVoice] =
+		useState<VoiceOptions | null>(null);
+	const [isVoiceSheetOpen, setIsVoiceSheetOpen] = useState(false);
 
 	const { settings } = useSettings();
-	const { useCameraEmotionDetection } = settings;
+	const {
+		useCameraEmotionDetection,
+		handsFreeVoiceMode,
+		handsFreeSilenceMs,
+		maxUtteranceSeconds,
+		onDeviceSpeechRecognition,
+		sendVoiceAsText,
+		onDeviceSpeechSynthesis,
+	} = settings;
+	const voiceOptions = conversationVoice ?? settings.voiceOptions;
+
+	const {
+		error: speechModelError,
+		isReady: isSpeechModelReady,
+		downloadProgress: speechModelProgress,
+		transcribe,
+	} = useSpeechToText({
+		model: SPEECH_RECOGNITION_MODEL,
+		preventLoad: !onDeviceSpeechRecognition,
+	});
+	const { isReady: isSpeechSynthesisReady, synthesize } = useSpeechSynthesis(
+		onDeviceSpeechSynthesis,
+	);
+	// Sending text only is a privacy choice, so voice chat waits for the model
+	// rather than falling back to uploading audio.
+	const isWaitingForSpeechModel =
+		onDeviceSpeechRecognition && sendVoiceAsText && !isSpeechModelReady;
+
+	const transcribeOnDevice = useCallback(
+		async (waveform: Float32Array) => {
+			if (!isSpeechModelReady)
+				throw new Error("On-device speech recognition isn't ready yet.");
+			const result = await transcribe(waveform);
+			return result.text.trim();
+		},
+		[isSpeechModelReady, transcribe],
+	);
+
+	useEffect(() => {
+		if (!initialSessionId) return;
+		let cancelled = false;
+		getVoiceOverride(initialSessionId).then((options) => {
+			if (!cancelled) setConversationVoice(options);
+		});
+		return () => {
+			cancelled = true;
+		};
+	}, [initialSessionId]);
 
 	const device = useCameraDevice("front");
 	const { hasPermission, requestPermission } = useCameraPermission();
@@ -206,6 +383,14 @@ export function VoiceChatScreen({
 		}
 	}, [hasPermission, requestPermission, useCameraEmotionDetection]);
 
+	// The session keeps going in the background, but the camera can't.
+	useEffect(() => {
+		const subscription = AppState.addEventListener("change", (state) =>
+			setIsInForeground(state === "active"),
+		);
+		return () => subscription.remove();
+	}, []);
+
 	const runInference = useCallback(
 		async (data: ArrayBuffer, width: number, height: number) => {
 			const currentModel = modelState.current;
@@ -282,18 +467,125 @@ export function VoiceChatScreen({
 		},
 	});
 
-	const appendResponseText = useCallback((content: string) => {
-		if (!content) return;
-		setResponseText((current) => `${current ?? ""}${content}`);
-	}, []);
+	// Socket events always belong to the latest turn.
+	const updateCurrentTurn = useCallback(
+		(update: (turn: VoiceTurn) => VoiceTurn) => {
+			setTurns((current) =>
+				current.length === 0
+					? current
+					: [...current.slice(0, -1), update(current[current.length - 1])],
+			);
+		},
+		[],
+	);
+
+	const appendResponseText = useCallback(
+		(content: string) => {
+			if (!content) return;
+			updateCurrentTurn((turn) => ({
+				...turn,
+				respondedAt: turn.respondedAt ?? Date.now(),
+				responseText: turn.responseText + content,
+			}));
+		},
+		[updateCurrentTurn],
+	);
+
+	// Audio is uploaded as it is captured, so the server can transcribe while
+	// the user is still speaking. In hands-free mode the stream stays open
+	// between turns and voice activity detection decides when a turn starts
+	// and ends.
+	const { stream } = useAudioStream({
+		sampleRate: VOICE_SAMPLE_RATE,
+		encoding: "int16",
+		onBuffer: (buffer) => handleBufferRef.current?.(buffer),
+	});
+	// Never records; it only reports which microphones are connected.
+	const inputRecorder = useAudioRecorder(RecordingPresets.HIGH_QUALITY);
+
+	const startListening = useCallback(() => {
+		if (
+			uploadRef.current ||
+			vadRef.current ||
+			isAudioPlayingRef.current ||
+			isWaitingForSpeechModel
+		)
+			return;
+
+		vadRef.current = createVoiceActivityDetector({
+			silenceMs: handsFreeSilenceMs,
+		});
+		// Also runs from the playback effect, so state is only set once the
+		// stream has started.
+		stream.start().then(
+			() => {
+				setIsListening(true);
+				setStatusText("Go ahead, I'm listening");
+			},
+			() => {
+				vadRef.current = null;
+				setStatusText("Couldn't start listening. Please try again.");
+			},
+		);
+	}, [handsFreeSilenceMs, isWaitingForSpeechModel, stream]);
+
+	const stopListening = useCallback(() => {
+		vadRef.current = null;
+		stream.stop();
+		setIsListening(false);
+		setStatusText("Tap the mic to start talking");
+	}, [stream]);
+
+	// Closes the microphone at the end of a recording.
+	const stopCapture = useCallback(() => {
+		vadRef.current = null;
+		inputMonitorRef.current = null;
+		stream.stop();
+		setIsRecording(false);
+		setInputWarning(null);
+	}, [stream]);
+
+	// Keeps the microphone open while Dear AI speaks, so the user can
+	// interrupt by talking. Only with a headset, as the loudspeaker would
+	// otherwise interrupt the reply with itself.
+	const listenForBargeIn = useCallback(() => {
+		if (
+			uploadRef.current ||
+			vadRef.current ||
+			!hasHeadsetInput(inputRecorder.getAvailableInputs())
+		)
+			return;
+
+		isBargeInRef.current = true;
+		vadRef.current = createVoiceActivityDetector({
+			silenceMs: handsFreeSilenceMs,
+			...BARGE_IN_DETECTION,
+		});
+		stream.start().catch(() => {
+			isBargeInRef.current = false;
+			vadRef.current = null;
+		});
+	}, [handsFreeSilenceMs, inputRecorder, stream]);
+
+	const stopListeningForBargeIn = useCallback(() => {
+		if (!isBargeInRef.current) return;
+		isBargeInRef.current = false;
+		vadRef.current = null;
+		stream.stop();
+	}, [stream]);
 
 	const playNextAudio = useCallback(() => {
-		if (isAudioPlayingRef.current) return;
+		// Nothing plays over a recording; its reply can be replayed later.
+		if (isAudioPlayingRef.current || continuationRef.current) return;
 
 		const nextAudioUri = audioQueueRef.current.shift();
 		if (!nextAudioUri) {
 			setIsPlaying(false);
-			if (responseFinishedRef.current) setStatusText("Tap the mic to continue");
+			if (responseFinishedRef.current && pendingSpeechRef.current === 0) {
+				stopListeningForBargeIn();
+				setStatusText("Tap the mic to continue");
+				if (handsFreeVoiceMode) startListening();
+			}
 			return;
 		}
 
@@ -302,111 +594,218 @@ export function VoiceChatScreen({
 		player.play();
 		setIsPlaying(true);
 		setStatusText("Speaking...");
-	}, [player]);
+		listenForBargeIn();
+	}, [
+		handsFreeVoiceMode,
+		listenForBargeIn,
+		player,
+		startListening,
+		stopListeningForBargeIn,
+	]);
 
-	const enqueueAudio = useCallback(
-		async (base64Audio: string) => {
-			const audioFile = new File(Paths.cache, createAudioFileName());
-			audioFile.write(base64Audio, { encoding: EncodingType.Base64 });
-			audioQueueRef.current.push(audioFile.uri);
-			hasAudioResponseRef.current = true;
+	// Queues a clip of the current reply, keeping it for replay.
+	const queueAudioClip = useCallback(
+		(audioUri: string) => {
+			sessionAudioUrisRef.current.push(audioUri);
+			updateCurrentTurn((turn) => ({
+				...turn,
+				audioUris: [...turn.audioUris, audioUri],
+			}));
+			audioQueueRef.current.push(audioUri);
 			playNextAudio();
 		},
-		[playNextAudio],
+		[playNextAudio, updateCurrentTurn],
 	);
 
-	useEffect(() => {
-		if (!session) return;
+	const enqueueAudio = useCallback(
+		(base64Audio: string) => queueAudioClip(writeAudioCacheFile(base64Audio)),
+		[queueAudioClip],
+	);
 
-		const MAX_RETRIES = 5;
+	const speakOnDevice = useCallback(
+		(text: string) => {
+			const plainText = toPlainText(text).trim();
+			if (!plainText) return;
 
-		function connect() {
-			const socket = new WebSocket(createChatWebSocketUrl(session!));
-			socketRef.current = socket;
+			const generation = speechGenerationRef.current;
+			pendingSpeechRef.current += 1;
+			synthesize(plainText, voiceOptions.speakingRate)
+				.then((audioUri) => {
+					if (generation === speechGenerationRef.current)
+						queueAudioClip(audioUri);
+					else deleteAudioCacheFiles([audioUri]);
+				})
+				.catch((error) => {
+					console.warn("[VoiceChat] On-device speech failed:", error);
+				})
+				.finally(() => {
+					if (generation !== speechGenerationRef.current) return;
+					pendingSpeechRef.current -= 1;
+					// Ends the turn if this was the last clip and nothing is playing.
+					if (!isAudioPlayingRef.current) playNextAudio();
+				});
+		},
+		[playNextAudio, queueAudioClip, synthesize, voiceOptions.speakingRate],
+	);
 
-			socket.onopen = () => {
-				retryCountRef.current = 0;
-				setIsConnected(true);
-				setStatusText("Tap the mic to start talking");
-			};
+	// On-device speech only voices replies the server sends no audio for.
+	// Once earlier replies came without audio each sentence is spoken as it
+	// completes; until then they are held for the end of the reply.
+	const collectReplyText = useCallback(
+		(content: string) => {
+			const sentences = sentenceBufferRef.current?.push(content) ?? [];
+			if (doesServerSpeakRef.current === false)
+				for (const sentence of sentences) speakOnDevice(sentence);
+			else heldSentencesRef.current.push(...sentences);
+		},
+		[speakOnDevice],
+	);
 
-			socket.onmessage = (event) => {
-				try {
-					const message = JSON.parse(event.data) as VoiceSocketEvent;
-
-					if (message.layer === "session_id" && message.content) {
-						activeSessionIdRef.current = message.content;
-					}
-					if (message.layer === "transcript") {
-						setTranscript(message.content ?? null);
-					}
-					if (message.layer === "immediate") {
-						setStatusText(message.content ?? "Thinking...");
-					}
-					if (message.layer === "rag") {
-						appendResponseText(message.content ?? "");
-					}
-					if (message.layer === "audio" && message.audio) {
-						enqueueAudio(message.audio);
-					}
-					if (message.layer === "emergency" || message.layer === "irrelevant") {
-						appendResponseText(message.content ?? "");
-					}
-					if (message.final) {
-						responseFinishedRef.current = true;
-						setIsSending(false);
-						if (!hasAudioResponseRef.current) {
-							setStatusText("Tap the mic to continue");
-						}
-					}
-				} catch {
+	const stopOnDeviceSpeech = useCallback(() => {
+		speechGenerationRef.current += 1;
+		pendingSpeechRef.current = 0;
+		sentenceBufferRef.current = null;
+		heldSentencesRef.current = [];
+	}, []);
+
+	const handleSocketEvent = useCallback(
+		(message: ChatSocketEvent) => {
+			// The rest of an interrupted reply is dropped.
+			if (isCancellingRef.current) {
+				if (message.layer === "emergency") setHasShownCrisisSupport(true);
+				if (message.final) isCancellingRef.current = false;
+				return;
+			}
+			if (message.layer === "session_id") {
+				// A voice picked before the conversation existed is saved now.
+				if (conversationVoice && activeSessionIdRef.current !== message.content)
+					setVoiceOverride(message.content, conversationVoice);
+				activeSessionIdRef.current = message.content;
+			}
+			if (message.layer === "transcript") {
+				updateCurrentTurn((turn) => ({
+					...turn,
+					transcript: message.content ?? null,
+				}));
+			}
+			if (message.layer === "immediate" && !continuationRef.current) {
+				setStatusText(message.content ?? "Thinking...");
+			}
+			if (message.layer === "rag") {
+				appendResponseText(message.content ?? "");
+				collectReplyText(message.content ?? "");
+			}
+			if (message.layer === "audio" && message.audio) {
+				// The server voices this reply, so the device stays quiet.
+				doesServerSpeakRef.current = true;
+				stopOnDeviceSpeech();
+				enqueueAudio(message.audio);
+			}
+			if (message.layer === "emergency") {
+				updateCurrentTurn((turn) => ({ ...turn, isCrisis: true }));
+				setHasShownCrisisSupport(true);
+				appendResponseText(message.content ?? "");
+				collectReplyText(message.content ?? "");
+			}
+			if (message.layer === "irrelevant") {
+				appendResponseText(message.content ?? "");
+				collectReplyText(message.content ?? "");
+			}
+			if (message.final) {
+				if (continuationRef.current) {
+					responseFinishedRef.current = true;
 					setIsSending(false);
-					setStatusText(
-						"We couldn't understand the response. Please try again.",
-					);
+					sendContinuationRef.current?.();
+					return;
 				}
-			};
-
-			socket.onerror = () => {
-				setIsConnected(false);
+				// A sentence buffer that outlived the reply means no audio came.
+				if (sentenceBufferRef.current) doesServerSpeakRef.current = false;
+				const rest = sentenceBufferRef.current?.flush();
+				if (rest) heldSentencesRef.current.push(rest);
+				for (const sentence of heldSentencesRef.current)
+					speakOnDevice(sentence);
+				heldSentencesRef.current = [];
+				responseFinishedRef.current = true;
 				setIsSending(false);
-				// Reconnect handled in onclose
-			};
-
-			socket.onclose = () => {
-				if (socketRef.current !== socket) return;
-				setIsConnected(false);
-				if (retryCountRef.current < MAX_RETRIES) {
-					const delay = Math.min(1000 * 2 ** retryCountRef.current, 16_000);
-					retryCountRef.current += 1;
-					setStatusText(
-						`Reconnecting... (attempt ${retryCountRef.current}/${MAX_RETRIES})`,
-					);
-					retryTimeoutRef.current = setTimeout(() => {
-						if (socketRef.current === socket || socketRef.current == null) {
-							connect();
-						}
-					}, delay);
-				} else {
-					setStatusText("Couldn't connect. Please go back and try again.");
-				}
-			};
-		}
-
-		connect();
+				// With nothing left to play, the turn ends now.
+				if (!isAudioPlayingRef.current) playNextAudio();
+			}
+		},
+		[
+			appendResponseText,
+			collectReplyText,
+			conversationVoice,
+			enqueueAudio,
+			playNextAudio,
+			speakOnDevice,
+			stopOnDeviceSpeech,
+			updateCurrentTurn,
+		],
+	);
 
-		return () => {
-			if (retryTimeoutRef.current != null) {
-				clearTimeout(retryTimeoutRef.current);
-				retryTimeoutRef.current = null;
+	const handleSocketStatusChange = useCallback(
+		(state: ChatSocketState) => {
+			if (state.status === "open") {
+				if (!handsFreeVoiceMode) setStatusText("Tap the mic to start talking");
+				// Listening starts from the effect below once the model is ready.
+				else if (isWaitingForSpeechModel)
+					setStatusText("Waiting for the speech model...");
+				else startListening();
+				return;
 			}
-			const socket = socketRef.current;
-			if (socket) {
-				socketRef.current = null; // Prevent onclose from scheduling a retry.
-				socket.close();
+			setIsSending(false);
+			isCancellingRef.current = false;
+			// The reply a held recording waits for won't arrive.
+			if (continuationRef.current) {
+				continuationRef.current = null;
+				stopCapture();
 			}
-		};
-	}, [appendResponseText, enqueueAudio, session]);
+			if (state.status === "reconnecting") {
+				isConnectionWeakRef.current = true;
+				setStatusText(
+					`Reconnecting... (attempt ${state.attempt}/${CHAT_SOCKET_MAX_RETRIES})`,
+				);
+			}
+			if (state.status === "closed") {
+				setStatusText("Couldn't connect. Please go back and try again.");
+			}
+		},
+		[handsFreeVoiceMode, isWaitingForSpeechModel, startListening, stopCapture],
+	);
+
+	const {
+		state: socketState,
+		send,
+		sendAudio,
+	} = useChatSocket(session, {
+		onEvent: handleSocketEvent,
+		onStatusChange: handleSocketStatusChange,
+		onInvalidEvent: () => {
+			setIsSending(false);
+			setStatusText("We couldn't understand the response. Please try again.");
+		},
+	});
+	const isConnected = socketState.status === "open";
+
+	// Hands-free listening that waited for the speech model starts once it
+	// is ready.
+	const wasWaitingForSpeechModelRef = useRef(isWaitingForSpeechModel);
+	useEffect(() => {
+		const wasWaiting = wasWaitingForSpeechModelRef.current;
+		wasWaitingForSpeechModelRef.current = isWaitingForSpeechModel;
+		if (
+			wasWaiting &&
+			!isWaitingForSpeechModel &&
+			handsFreeVoiceMode &&
+			isConnected
+		)
+			startListening();
+	}, [
+		handsFreeVoiceMode,
+		isConnected,
+		isWaitingForSpeechModel,
+		startListening,
+	]);
 
 	useEffect(() => {
 		async function configureAudio() {
@@ -438,90 +837,407 @@ export function VoiceChatScreen({
 		playNextAudio();
 	}, [playNextAudio, playerStatus.didJustFinish, playerStatus.error]);
 
+	useMediaSession(player, {
+		title: chatTitle || "Voice conversation",
+		subtitle: statusText,
+		// Leaving the screen ends the session.
+		onStop: () => router.back(),
+	});
+
+	// Holding a reply from the media controls also turns off the microphone,
+	// so nothing is heard until the reply is resumed.
+	const holdReply = useCallback(() => {
+		stopListeningForBargeIn();
+		setIsReplyHeld(true);
+		setStatusText("Paused");
+	}, [stopListeningForBargeIn]);
+
+	const resumeHeldReply = useCallback(() => {
+		setIsReplyHeld(false);
+		setStatusText("Speaking...");
+		listenForBargeIn();
+	}, [listenForBargeIn]);
+
+	// The media controls play and pause the player directly, so their presses
+	// show up as changes the app didn't make. Playing while no reply is
+	// queued would repeat the last clip, so that is undone.
+	const handleMediaControl = useCallback(
+		(isPlayerPlaying: boolean) => {
+			if (!isPlayerPlaying) {
+				if (isAudioPlayingRef.current) holdReply();
+			} else if (isReplyHeld) {
+				resumeHeldReply();
+			} else if (!isAudioPlayingRef.current) {
+				player.pause();
+			}
+		},
+		[holdReply, isReplyHeld, player, resumeHeldReply],
+	);
+
+	useEffect(() => {
+		handleMediaControlRef.current = handleMediaControl;
+	}, [handleMediaControl]);
+
+	useEffect(() => {
+		const subscription = player.addListener(
+			"playbackStatusUpdate",
+			(status) => {
+				const wasPlaying = wasPlayerPlayingRef.current;
+				wasPlayerPlayingRef.current = status.playing;
+				if (wasPlaying !== status.playing && !status.didJustFinish)
+					handleMediaControlRef.current?.(status.playing);
+			},
+		);
+		return () => subscription.remove();
+	}, [player]);
+
+	// Clears the previous exchange and opens an upload for a new utterance.
+	const beginTurn = useCallback(() => {
+		emotionHistoryRef.current = [];
+		responseFinishedRef.current = false;
+		recordingStartedAtRef.current = null;
+		inputMonitorRef.current = createInputLevelMonitor();
+		setTurns((current) => [...current, createVoiceTurn()]);
+		setInputWarning(null);
+		setIsReplyHeld(false);
+		setReplayingTurnId(null);
+		setRecordingSeconds(0);
+		stopOnDeviceSpeech();
+		// Until the on-device model is ready, replies without audio stay silent.
+		if (
+			onDeviceSpeechSynthesis &&
+			isSpeechSynthesisReady &&
+			!doesServerSpeakRef.current
+		)
+			sentenceBufferRef.current = createSentenceBuffer();
+
+		const sessionId = activeSessionIdRef.current;
+		const usesSpeechModel =
+			onDeviceSpeechRecognition && (isSpeechModelReady || sendVoiceAsText);
+		const audio =
+			usesSpeechModel && (sendVoiceAsText || isConnectionWeakRef.current)
+				? null
+				: createVoiceUpload({ send, sendAudio }, { voiceOptions, sessionId });
+		uploadRef.current = usesSpeechModel
+			? createTranscribingUpload(
+					{ send },
+					{
+						audio,
+						transcribe: transcribeOnDevice,
+						voiceOptions,
+						sessionId,
+						// The server's transcript wins if it arrived first.
+						onTranscript: (transcript) =>
+							updateCurrentTurn((turn) =>
+								turn.transcript ? turn : { ...turn, transcript },
+							),
+						onError: (error) => {
+							setIsSending(false);
+							setStatusText(error.message);
+						},
+					},
+				)
+			: audio;
+	}, [
+		isSpeechModelReady,
+		isSpeechSynthesisReady,
+		onDeviceSpeechRecognition,
+		onDeviceSpeechSynthesis,
+		send,
+		sendAudio,
+		sendVoiceAsText,
+		stopOnDeviceSpeech,
+		transcribeOnDevice,
+		updateCurrentTurn,
+		voiceOptions,
+	]);
+
+	// Stops the reply the user talked over and tells the server to abandon it.
+	const interruptReply = useCallback(() => {
+		isBargeInRef.current = false;
+		stopOnDeviceSpeech();
+		player.pause();
+		audioQueueRef.current = [];
+		isAudioPlayingRef.current = false;
+		setIsPlaying(false);
+		setIsReplyHeld(false);
+		if (responseFinishedRef.current) return;
+
+		isCancellingRef.current = true;
+		setIsSending(false);
+		updateCurrentTurn((turn) => ({ ...turn, isInterrupted: true }));
+		send({ type: "cancel", session_id: activeSessionIdRef.current });
+	}, [player, send, stopOnDeviceSpeech, updateCurrentTurn]);
+
 	const startRecording = useCallback(async () => {
+		if (!isConnected) {
+			setStatusText("The chat connection is unavailable.");
+			return;
+		}
+
 		try {
 			player.pause();
 			audioQueueRef.current = [];
 			isAudioPlayingRef.current = false;
 			setIsPlaying(false);
-			emotionHistoryRef.current = [];
-			await recorder.prepareToRecordAsync();
-			recorder.record();
+			beginTurn();
+			await stream.start();
 			setIsRecording(true);
 			setStatusText("Listening...");
 		} catch {
+			uploadRef.current = null;
 			setStatusText("Couldn't start recording. Please try again.");
 		}
-	}, [player, recorder]);
+	}, [beginTurn, isConnected, player, stream]);
 
-	const stopRecordingAndSend = useCallback(async () => {
-		try {
-			await recorder.stop();
-			setIsRecording(false);
-			setIsSending(true);
-			setStatusText("Sending your voice note...");
+	// Sends what an upload captured as the user's turn, returning whether it
+	// went out.
+	const finishUpload = useCallback(
+		(upload: VoiceUpload | null, statusText: string) => {
+			try {
+				if (!upload) throw new Error("No recording was captured.");
+				upload.finish(
+					useCameraEmotionDetection && emotionHistoryRef.current.length > 0
+						? [...emotionHistoryRef.current]
+						: undefined,
+				);
+				setIsSending(true);
+				setStatusText(statusText);
+				return true;
+			} catch (error) {
+				setIsSending(false);
+				setStatusText(
+					error instanceof Error
+						? error.message
+						: "Couldn't send your voice note.",
+				);
+				return false;
+			}
+		},
+		[useCameraEmotionDetection],
+	);
 
-			const recordingUri = recorder.uri;
-			if (!recordingUri) throw new Error("No recording was captured.");
+	const stopRecordingAndSend = useCallback(() => {
+		const upload = uploadRef.current;
+		uploadRef.current = null;
+		stopCapture();
 
-			const socket = socketRef.current;
-			if (!socket || socket.readyState !== WebSocket.OPEN) {
-				throw new Error("The chat connection is unavailable.");
+		// Audio held past the length limit is sent once the reply before it ends.
+		const continuation = continuationRef.current;
+		if (continuation) {
+			continuation.isComplete = true;
+			setStatusText("Thinking...");
+			return;
+		}
+		finishUpload(upload, "Thinking...");
+	}, [finishUpload, stopCapture]);
+
+	// Sends the audio recorded past the length limit as the next turn, now
+	// that the reply to the part before it has ended. Recording carries on
+	// into the new turn's upload if the user is still talking.
+	const sendContinuation = useCallback(() => {
+		const continuation = continuationRef.current;
+		continuationRef.current = null;
+		if (!continuation) return;
+
+		audioQueueRef.current = [];
+		const recordingStartedAt = recordingStartedAtRef.current;
+		beginTurn();
+		recordingStartedAtRef.current = recordingStartedAt;
+		const upload = uploadRef.current;
+		if (!upload || !continuation.buffers.every((item) => upload.write(item))) {
+			uploadRef.current = null;
+			stopCapture();
+			setStatusText("The chat connection is unavailable.");
+			return;
+		}
+		if (continuation.isComplete) {
+			uploadRef.current = null;
+			finishUpload(upload, "Thinking...");
+		}
+	}, [beginTurn, finishUpload, stopCapture]);
+
+	useEffect(() => {
+		sendContinuationRef.current = sendContinuation;
+	}, [sendContinuation]);
+
+	const handleBuffer = useCallback(
+		(buffer: AudioStreamBuffer) => {
+			inputLevel.set(getMeterLevel(getPcmLevel(buffer.data)));
+			const detector = vadRef.current;
+			const activity = detector?.process(buffer) ?? null;
+			let buffers = [buffer];
+			if (detector && activity === "speech_start" && !uploadRef.current) {
+				buffers = detector.getPreRoll();
+				if (isBargeInRef.current) {
+					interruptReply();
+					// The louder barge-in threshold would cut off quiet speech,
+					// so the rest of the utterance uses the normal one.
+					detector.setDetection({});
+				}
+				beginTurn();
+				setIsListening(false);
+				setIsRecording(true);
+				setStatusText("Listening...");
 			}
 
-			responseFinishedRef.current = false;
-			hasAudioResponseRef.current = false;
-			audioQueueRef.current = [];
-			isAudioPlayingRef.current = false;
-			setTranscript(null);
-			setResponseText(null);
-			const audio = await new File(recordingUri).base64();
-			const payload: Record<string, unknown> = {
-				audio,
-				voice_mode: true,
-				voice: "en-US-Studio-O",
-				session_id: activeSessionIdRef.current,
-			};
-			if (useCameraEmotionDetection && emotionHistoryRef.current.length > 0) {
-				payload.emotions = [...emotionHistoryRef.current];
+			const upload = uploadRef.current;
+			const continuation = continuationRef.current;
+			if (!upload && !continuation) return;
+			recordingStartedAtRef.current ??= buffers[0].timestamp;
+			const recordedSeconds = buffer.timestamp - recordingStartedAtRef.current;
+			setRecordingSeconds(Math.floor(recordedSeconds));
+			setInputWarning(inputMonitorRef.current?.process(buffer) ?? null);
+			if (continuation) {
+				continuation.buffers.push(...buffers);
+			} else if (upload && !buffers.every((item) => upload.write(item))) {
+				uploadRef.current = null;
+				stopCapture();
+				setStatusText("The chat connection is unavailable.");
+				return;
 			}
-			socket.send(JSON.stringify(payload));
-			setStatusText("Thinking...");
-		} catch (error) {
-			setIsRecording(false);
-			setIsSending(false);
-			setStatusText(
-				error instanceof Error
-					? error.message
-					: "Couldn't send your voice note.",
-			);
+
+			const isTooLong = recordedSeconds >= maxUtteranceSeconds;
+			if (activity === "speech_end" || (continuation && isTooLong)) {
+				stopRecordingAndSend();
+			} else if (upload && isTooLong) {
+				// The part so far goes out as its own turn while the microphone
+				// keeps recording the rest, which follows once the reply ends.
+				uploadRef.current = null;
+				if (
+					finishUpload(
+						upload,
+						"That's the longest a message can be, so I've sent it. Keep going.",
+					)
+				) {
+					continuationRef.current = { buffers: [], isComplete: false };
+					recordingStartedAtRef.current = buffer.timestamp;
+					setRecordingSeconds(0);
+				} else {
+					stopCapture();
+				}
+			}
+		},
+		[
+			beginTurn,
+			finishUpload,
+			inputLevel,
+			interruptReply,
+			maxUtteranceSeconds,
+			stopCapture,
+			stopRecordingAndSend,
+		],
+	);
+
+	useEffect(() => {
+		handleBufferRef.current = handleBuffer;
+	}, [handleBuffer]);
+
+	// Meters fall back to silence once their audio stops.
+	useEffect(() => {
+		if (!isRecording && !isListening) inputLevel.set(0);
+	}, [inputLevel, isListening, isRecording]);
+
+	useEffect(() => {
+		if (!isPlaying) outputLevel.set(0);
+	}, [isPlaying, outputLevel]);
+
+	const pausePlayback = useCallback(() => {
+		stopListeningForBargeIn();
+		stopOnDeviceSpeech();
+		player.pause();
+		audioQueueRef.current = [];
+		isAudioPlayingRef.current = false;
+		setIsPlaying(false);
+		setIsReplyHeld(false);
+		setStatusText("Response paused");
+	}, [player, stopListeningForBargeIn, stopOnDeviceSpeech]);
+
+	// Plays an earlier reply again from the clips cached while it streamed.
+	const replayTurn = useCallback(
+		(turn: VoiceTurn) => {
+			if (isListening) stopListening();
+			stopListeningForBargeIn();
+			stopOnDeviceSpeech();
+			player.pause();
+			audioQueueRef.current = [...turn.audioUris];
+			isAudioPlayingRef.current = false;
+			setIsReplyHeld(false);
+			setReplayingTurnId(turn.id);
+			playNextAudio();
+		},
+		[
+			isListening,
+			player,
+			playNextAudio,
+			stopListening,
+			stopListeningForBargeIn,
+			stopOnDeviceSpeech,
+		],
+	);
+
+	const switchToText = useCallback(() => {
+		const sessionId = activeSessionIdRef.current;
+		if (sessionId) {
+			router.replace({
+				pathname: "/chat/[id]",
+				params: { id: sessionId, chatTitle },
+			});
+		} else {
+			router.replace("/chat/new");
 		}
-	}, [recorder]);
+	}, [chatTitle, router]);
 
 	const handlePrimaryAction = useCallback(() => {
 		if (isRecording) {
 			stopRecordingAndSend();
 			return;
 		}
+		if (isReplyHeld) {
+			player.play();
+			return;
+		}
 		if (isPlaying) {
-			player.pause();
-			audioQueueRef.current = [];
-			isAudioPlayingRef.current = false;
-			setIsPlaying(false);
-			setStatusText("Response paused");
+			pausePlayback();
 			return;
 		}
-		startRecording();
-	}, [isPlaying, isRecording, player, startRecording, stopRecordingAndSend]);
+		if (isListening) {
+			stopListening();
+			return;
+		}
+		if (handsFreeVoiceMode) startListening();
+		else startRecording();
+	}, [
+		handsFreeVoiceMode,
+		isListening,
+		isPlaying,
+		isRecording,
+		isReplyHeld,
+		pausePlayback,
+		player,
+		startListening,
+		startRecording,
+		stopListening,
+		stopRecordingAndSend,
+	]);
 
-	const isDisabled = !isConnected || isSending;
+	const changeConversationVoice = (options: VoiceOptions | null) => {
+		setConversationVoice(options);
+		if (activeSessionIdRef.current)
+			setVoiceOverride(activeSessionIdRef.current, options);
+	};
+
+	// A recording can still be stopped while the part sent before it is
+	// being answered.
+	const isDisabled =
+		!isConnected || (isSending && !isRecording) || isWaitingForSpeechModel;
 
 	return (
 		<StyledSafeAreaView className="flex-1 bg-background">
 			{device && useCameraEmotionDetection && (
 				<EmotionCameraSession
 					device={device}
-					isActive={Boolean(hasPermission && isReady)}
+					isActive={Boolean(hasPermission && isReady && isInForeground)}
 					frameOutput={frameOutput}
 				/>
 			)}
@@ -536,95 +1252,209 @@ export function VoiceChatScreen({
 				<Text className="flex-1 text-center font-sans-medium text-base text-foreground">
 					{chatTitle || "Voice conversation"}
 				</Text>
-				<View className="size-10" />
-			</View>
-
-			<View className="flex-1 items-center justify-center px-6">
-				<View
-					className={`mb-8 size-32 items-center justify-center rounded-full ${
-						isRecording
-							? "bg-danger/15"
-							: isPlaying
-								? "bg-accent/20"
-								: "bg-accent/10"
-					}`}
+				<Pressable
+					onPress={switchToText}
+					disabled={isRecording || isSending}
+					hitSlop={12}
+					accessibilityRole="button"
+					accessibilityLabel="Continue in text chat"
+					className={`size-10 items-center justify-center ${isRecording || isSending ? "opacity-40" : ""}`}
 				>
-					<StyledFlowerIcon
-						className={isRecording ? "text-danger" : "text-accent"}
-						size={58}
-					/>
+					<StyledMessageSquareTextIcon className="size-5 text-foreground" />
+				</Pressable>
+				<Pressable
+					onPress={() => setIsVoiceSheetOpen(true)}
+					hitSlop={12}
+					accessibilityRole="button"
+					accessibilityLabel="Voice for this conversation"
+					className="size-10 items-center justify-center"
+				>
+					<StyledAudioLinesIcon className="size-5 text-foreground" />
+				</Pressable>
+			</View>
+			{hasShownCrisisSupport && (
+				<View className="pt-3">
+					<CrisisBanner />
 				</View>
+			)}
+
+			<ScrollView
+				ref={timelineRef}
+				className="flex-1"
+				contentContainerClassName={`flex-grow px-6 py-6 ${turns.length === 0 ? "items-center justify-center" : "justify-end gap-5"}`}
+				onContentSizeChange={() =>
+					timelineRef.current?.scrollToEnd({ animated: true })
+				}
+			>
+				{turns.length === 0 ? (
+					<View
+						className={`size-32 items-center justify-center rounded-full ${
+							isRecording
+								? "bg-danger/15"
+								: isListening
+									? "bg-accent/20"
+									: "bg-accent/10"
+						}`}
+					>
+						<StyledFlowerIcon
+							className={isRecording ? "text-danger" : "text-accent"}
+							size={58}
+						/>
+					</View>
+				) : (
+					turns.map((turn, index) => {
+						const isLatest = index === turns.length - 1;
+						return (
+							<VoiceTurnCard
+								key={turn.id}
+								turn={turn}
+								isStreaming={isLatest && isSending}
+								isReplaying={isPlaying && replayingTurnId === turn.id}
+								canReplay={!isRecording && !isSending && !isPlaying}
+								onReplay={() => replayTurn(turn)}
+								onPause={pausePlayback}
+							/>
+						);
+					})
+				)}
+			</ScrollView>
+
+			<View className="items-center px-6 pt-4">
 				<Text className="text-center font-sans-medium text-xl text-foreground">
 					{statusText}
 				</Text>
+				{(isRecording || isListening || isPlaying) && (
+					<View className="mt-3 self-stretch">
+						<VoiceWaveform
+							key={isPlaying ? "output" : "input"}
+							level={isPlaying ? outputLevel : inputLevel}
+							className={isRecording ? "bg-danger" : "bg-accent"}
+						/>
+					</View>
+				)}
 				{isRecording && (
 					<Text className="mt-2 font-sans text-sm text-danger">
-						{formatDuration(recorderState.durationMillis)}
+						{formatDuration(recordingSeconds)}
 					</Text>
 				)}
-
-				{(transcript || responseText) && (
-					<View className="mt-8 w-full gap-3">
-						{transcript && (
-							<View className="rounded-2xl border border-border bg-surface px-4 py-3">
-								<Text className="font-sans-medium text-xs uppercase text-muted">
-									You said
-								</Text>
-								<Text className="mt-1 font-sans leading-6 text-foreground">
-									{transcript}
-								</Text>
-							</View>
-						)}
-						{responseText && (
-							<View className="rounded-2xl bg-accent/10 px-4 py-3">
-								<Text className="font-sans-medium text-xs uppercase text-accent">
-									Dear AI
-								</Text>
-								<Text className="mt-1 font-sans leading-6 text-foreground">
-									{responseText}
-								</Text>
-							</View>
-						)}
-					</View>
+				{isRecording &&
+					maxUtteranceSeconds - recordingSeconds <=
+						RECORDING_COUNTDOWN_SECONDS && (
+						<Text className="mt-2 text-center font-sans text-xs text-warning">
+							{`Sending in ${Math.max(maxUtteranceSeconds - recordingSeconds, 0)} s`}
+						</Text>
+					)}
+				{isRecording && inputWarning && (
+					<Text className="mt-2 text-center font-sans text-xs text-warning">
+						{INPUT_WARNING_TEXT[inputWarning]}
+					</Text>
+				)}
+				{onDeviceSpeechRecognition && !isSpeechModelReady && (
+					<Text className="mt-2 text-center font-sans text-xs text-muted">
+						{speechModelError
+							? sendVoiceAsText
+								? 'On-device speech recognition is unavailable. Turn off "Only send text" in Settings to talk.'
+								: "On-device speech recognition is unavailable."
+							: `Downloading the speech model... ${Math.round(speechModelProgress * 100)}%`}
+					</Text>
 				)}
 			</View>
 
-			<View className="items-center gap-4 pb-10">
-				<Pressable
-					onPress={handlePrimaryAction}
-					disabled={isDisabled}
-					accessibilityRole="button"
-					accessibilityLabel={
-						isRecording
-							? "Send voice recording"
-							: isPlaying
-								? "Pause response"
-								: "Start voice recording"
-					}
-					className={`size-20 items-center justify-center rounded-full ${
-						isDisabled ? "bg-muted/40" : isRecording ? "bg-danger" : "bg-accent"
-					}`}
-				>
-					{isRecording ? (
-						<StyledSquareIcon className="size-7 text-white" />
-					) : isPlaying ? (
-						<StyledPauseIcon className="size-8 text-accent-foreground" />
-					) : isSending ? (
-						<StyledSendIcon className="size-7 text-accent-foreground" />
-					) : (
-						<StyledMicIcon className="size-8 text-accent-foreground" />
+			<View className="items-center gap-4 pt-6 pb-10">
+				<View className="size-28 items-center justify-center">
+					{(isRecording || isListening || isPlaying) && (
+						<VoiceLevelRing
+							key={isPlaying ? "output" : "input"}
+							level={isPlaying ? outputLevel : inputLevel}
+							className={isRecording ? "bg-danger/20" : "bg-accent/20"}
+						/>
 					)}
-				</Pressable>
+					<Pressable
+						onPress={handlePrimaryAction}
+						disabled={isDisabled}
+						accessibilityRole="button"
+						accessibilityLabel={
+							isRecording
+								? "Send voice recording"
+								: isReplyHeld
+									? "Resume response"
+									: isPlaying
+										? "Pause response"
+										: isListening
+											? "Stop listening"
+											: "Start voice recording"
+						}
+						className={`size-20 items-center justify-center rounded-full ${
+							isDisabled
+								? "bg-muted/40"
+								: isRecording
+									? "bg-danger"
+									: "bg-accent"
+						}`}
+					>
+						{isRecording ? (
+							<StyledSquareIcon className="size-7 text-white" />
+						) : isReplyHeld ? (
+							<StyledPlayIcon className="size-8 text-accent-foreground" />
+						) : isPlaying ? (
+							<StyledPauseIcon className="size-8 text-accent-foreground" />
+						) : isListening ? (
+							<StyledMicOffIcon className="size-8 text-accent-foreground" />
+						) : isSending ? (
+							<StyledSendIcon className="size-7 text-accent-foreground" />
+						) : (
+							<StyledMicIcon className="size-8 text-accent-foreground" />
+						)}
+					</Pressable>
+				</View>
 				<Text className="font-sans text-xs text-muted">
 					{isRecording
 						? "Tap to send"
-						: isPlaying
-							? "Tap to pause"
-							: isSending
-								? "Processing your message..."
-								: "Tap to speak"}
+						: isReplyHeld
+							? "Tap to resume"
+							: isPlaying
+								? "Tap to pause"
+								: isListening
+									? "Tap to stop listening"
+									: isSending
+										? "Processing your message..."
+										: "Tap to speak"}
 				</Text>
 			</View>
+			<BottomSheet isOpen={isVoiceSheetOpen} onOpenChange={setIsVoiceSheetOpen}>
+				<BottomSheet.Portal>
+					<BottomSheet.Overlay />
+					<BottomSheet.Content>
+						<View className="px-5 pb-7 pt-2">
+							<BottomSheet.Title className="font-sans-medium text-lg text-foreground">
+								Voice for this conversation
+							</BottomSheet.Title>
+							<BottomSheet.Description className="mt-1 mb-5 font-sans text-sm text-muted">
+								{conversationVoice
+									? "Only this conversation uses this voice."
+									: `Using your default: ${describeVoiceOptions(settings.voiceOptions)}.`}
+							</BottomSheet.Description>
+							<VoiceOptionsPicker
+								value={voiceOptions}
+								onChange={(updates) =>
+									changeConversationVoice({ ...voiceOptions, ...updates })
+								}
+							/>
+							{conversationVoice && (
+								<Pressable
+									onPress={() => changeConversationVoice(null)}
+									accessibilityRole="button"
+									className="mt-5 items-center rounded-2xl bg-surface py-4"
+								>
+									<Text className="font-sans-medium text-foreground">
+										Use my default voice
+									</Text>
+								</Pressable>
+							)}
+						</View>
+					</BottomSheet.Content>
+				</BottomSheet.Portal>
+			</BottomSheet>
 		</StyledSafeAreaView>
 	);
 }
@@ -0,0 +1,103 @@
+import { View } from "react-native";
+import Animated, {
+	type SharedValue,
+	useAnimatedReaction,
+	useAnimatedStyle,
+	useSharedValue,
+	withTiming,
+} from "react-native-reanimated";
+
+const WAVEFORM_BAR_COUNT = 28;
+const WAVEFORM_BARS = Array.from(
+	{ length: WAVEFORM_BAR_COUNT },
+	(_, index) => index,
+);
+// Bars never collapse completely, so silence still reads as a waveform.
+const MIN_BAR_HEIGHT = 0.08;
+const LEVEL_SMOOTHING_MS = 90;
+
+function WaveformBar({
+	history,
+	index,
+	className,
+}: {
+	history: SharedValue<number[]>;
+	index: number;
+	className: string;
+}) {
+	const style = useAnimatedStyle(() => ({
+		height: `${Math.max(history.value[index], MIN_BAR_HEIGHT) * 100}%`,
+	}));
+
+	return (
+		<Animated.View className={`w-1 rounded-full ${className}`} style={style} />
+	);
+}
+
+/**
+ * A scrolling waveform of recent levels, newest on the right. `level` is
+ * between 0 and 1.
+ */
+export function VoiceWaveform({
+	level,
+	className,
+}: {
+	level: SharedValue<number>;
+	className: string;
+}) {
+	const history = useSharedValue<number[]>(
+		new Array(WAVEFORM_BAR_COUNT).fill(0),
+	);
+
+	useAnimatedReaction(
+		() => level.value,
+		(current, previous) => {
+			if (current === previous) return;
+			history.value = [...history.value.slice(1), current];
+		},
+	);
+
+	return (
+		<View className="h-10 flex-row items-center justify-center gap-1">
+			{WAVEFORM_BARS.map((bar) => (
+				<WaveformBar
+					key={bar}
+					history={history}
+					index={bar}
+					className={className}
+				/>
+			))}
+		</View>
+	);
+}
+
+/**
+ * A ring that swells with `level`, drawn behind whatever it is placed with.
+ */
+export function VoiceLevelRing({
+	level,
+	className,
+}: {
+	level: SharedValue<number>;
+	className: string;
+}) {
+	const style = useAnimatedStyle(() => ({
+		opacity: withTiming(0.3 + level.value * 0.5, {
+			duration: LEVEL_SMOOTHING_MS,
+		}),
+		transform: [
+			{
+				scale: withTiming(1 + level.value * 0.45, {
+					duration: LEVEL_SMOOTHING_MS,
+				}),
+			},
+		],
+	}));
+
+	return (
+		<Animated.View
+			className={`absolute inset-0 rounded-full ${className}`}
+			style={style}
+		/>
+	);
+}
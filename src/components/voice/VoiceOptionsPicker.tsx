@@ -0,0 +1,145 @@
+import { useAudioPlayer } from "expo-audio";
+import { CheckIcon, PlayIcon } from "lucide-react-native";
+import { useState } from "react";
+import { ActivityIndicator, Pressable, Text, View } from "react-native";
+import { withUniwind } from "uniwind";
+import {
+	ASSISTANT_VOICES,
+	getVoicePreview,
+	SPEAKING_RATES,
+	VOICE_PITCHES,
+	type VoiceOptions,
+} from "@/lib/voices";
+
+const StyledCheckIcon = withUniwind(CheckIcon);
+const StyledPlayIcon = withUniwind(PlayIcon);
+
+function OptionChips({
+	label,
+	options,
+	value,
+	onSelect,
+}: {
+	label: string;
+	options: { value: number; label: string }[];
+	value: number;
+	onSelect: (value: number) => void;
+}) {
+	return (
+		<View className="gap-2">
+			<Text className="font-sans-medium text-xs uppercase text-muted">
+				{label}
+			</Text>
+			<View className="flex-row flex-wrap gap-2">
+				{options.map((option) => {
+					const isSelected = value === option.value;
+					return (
+						<Pressable
+							key={option.value}
+							onPress={() => onSelect(option.value)}
+							accessibilityRole="button"
+							accessibilityState={{ selected: isSelected }}
+							className={`rounded-full border px-4 py-1.5 ${isSelected ? "border-accent bg-accent" : "border-border bg-surface"}`}
+						>
+							<Text
+								className={`font-sans-medium text-sm ${isSelected ? "text-accent-foreground" : "text-foreground"}`}
+							>
+								{option.label}
+							</Text>
+						</Pressable>
+					);
+				})}
+			</View>
+		</View>
+	);
+}
+
+/**
+ * Choose Dear AI's voice, speaking rate and pitch. Each voice can be
+ * previewed with the chosen rate and pitch.
+ */
+export function VoiceOptionsPicker({
+	value,
+	onChange,
+}: {
+	value: VoiceOptions;
+	onChange: (updates: Partial<VoiceOptions>) => void;
+}) {
+	const player = useAudioPlayer(null);
+	const [loadingVoice, setLoadingVoice] = useState<string | null>(null);
+	const [previewError, setPreviewError] = useState<string | null>(null);
+
+	const playPreview = async (voice: string) => {
+		setLoadingVoice(voice);
+		setPreviewError(null);
+		try {
+			const uri = await getVoicePreview({ ...value, voice });
+			player.replace({ uri });
+			player.play();
+		} catch {
+			setPreviewError("We couldn't play that sample. Please try again.");
+		} finally {
+			setLoadingVoice(null);
+		}
+	};
+
+	return (
+		<View className="gap-5">
+			<View className="gap-2">
+				{ASSISTANT_VOICES.map((voice) => {
+					const isSelected = value.voice === voice.id;
+					return (
+						<Pressable
+							key={voice.id}
+							onPress={() => onChange({ voice: voice.id })}
+							accessibilityRole="button"
+							accessibilityState={{ selected: isSelected }}
+							className={`flex-row items-center gap-3 rounded-2xl border px-4 py-3 ${isSelected ? "border-accent bg-accent/10" : "border-border bg-surface"}`}
+						>
+							<View className="flex-1">
+								<Text className="font-sans-medium text-foreground">
+									{voice.name}
+								</Text>
+								<Text className="font-sans text-xs text-muted">
+									{voice.description}
+								</Text>
+							</View>
+							{isSelected && (
+								<StyledCheckIcon className="text-accent" size={18} />
+							)}
+							<Pressable
+								onPress={() => playPreview(voice.id)}
+								disabled={loadingVoice !== null}
+								hitSlop={8}
+								accessibilityRole="button"
+								accessibilityLabel={`Play a sample of ${voice.name}`}
+								className="size-9 items-center justify-center rounded-full bg-background"
+							>
+								{loadingVoice === voice.id ? (
+									<ActivityIndicator />
+								) : (
+									<StyledPlayIcon className="text-foreground" size={16} />
+								)}
+							</Pressable>
+						</Pressable>
+					);
+				})}
+				{previewError && (
+					<Text className="font-sans text-xs text-danger">{previewError}</Text>
+				)}
+			</View>
+			<OptionChips
+				label="Speaking rate"
+				options={SPEAKING_RATES}
+				value={value.speakingRate}
+				onSelect={(speakingRate) => onChange({ speakingRate })}
+			/>
+			<OptionChips
+				label="Pitch"
+				options={VOICE_PITCHES}
+				value={value.pitch}
+				onSelect={(pitch) => onChange({ pitch })}
+			/>
+		</View>
+	);
+}
@@ -0,0 +1,115 @@
+import { PauseIcon, PlayIcon } from "lucide-react-native";
+import { Pressable, Text, View } from "react-native";
+import { withUniwind } from "uniwind";
+import { CrisisCard } from "@/components/crisis/CrisisCard";
+
+const StyledPauseIcon = withUniwind(PauseIcon);
+const StyledPlayIcon = withUniwind(PlayIcon);
+
+// One exchange in a voice conversation: what the user said and how Dear AI
+// answered, with the audio clips of the answer kept for replay.
+export type VoiceTurn = {
+	id: string;
+	startedAt: number;
+	transcript: string | null;
+	respondedAt: number | null;
+	responseText: string;
+	audioUris: string[];
+	isCrisis: boolean;
+	isInterrupted: boolean;
+};
+
+function formatTime(timestamp: number) {
+	return new Date(timestamp).toLocaleTimeString([], {
+		hour: "numeric",
+		minute: "2-digit",
+	});
+}
+
+export function VoiceTurnCard({
+	turn,
+	isStreaming,
+	isReplaying,
+	canReplay,
+	onReplay,
+	onPause,
+}: {
+	turn: VoiceTurn;
+	isStreaming: boolean;
+	isReplaying: boolean;
+	canReplay: boolean;
+	onReplay: () => void;
+	onPause: () => void;
+}) {
+	const hasResponse = turn.isCrisis || turn.responseText.length > 0;
+
+	return (
+		<View className="gap-3">
+			<View className="ml-10 rounded-2xl border border-border bg-surface px-4 py-3">
+				<View className="flex-row items-center justify-between">
+					<Text className="font-sans-medium text-xs uppercase text-muted">
+						You said
+					</Text>
+					<Text className="font-sans text-xs text-muted">
+						{formatTime(turn.startedAt)}
+					</Text>
+				</View>
+				<Text
+					className={`mt-1 font-sans leading-6 ${turn.transcript ? "text-foreground" : "text-muted"}`}
+				>
+					{turn.transcript ?? "Transcribing..."}
+				</Text>
+			</View>
+
+			{turn.isCrisis ? (
+				<CrisisCard message={turn.responseText} isStreaming={isStreaming} />
+			) : (
+				hasResponse && (
+					<View className="mr-10 rounded-2xl bg-accent/10 px-4 py-3">
+						<View className="flex-row items-center justify-between">
+							<Text className="font-sans-medium text-xs uppercase text-accent">
+								Dear AI
+							</Text>
+							{turn.respondedAt !== null && (
+								<Text className="font-sans text-xs text-muted">
+									{formatTime(turn.respondedAt)}
+								</Text>
+							)}
+						</View>
+						<Text className="mt-1 font-sans leading-6 text-foreground">
+							{turn.responseText}
+						</Text>
+						{(turn.isInterrupted || turn.audioUris.length > 0) && (
+							<View className="mt-2 flex-row items-center justify-between">
+								<Text className="font-sans text-xs text-muted">
+									{turn.isInterrupted ? "Interrupted" : ""}
+								</Text>
+								{turn.audioUris.length > 0 && (
+									<Pressable
+										onPress={isReplaying ? onPause : onReplay}
+										disabled={!isReplaying && !canReplay}
+										hitSlop={8}
+										accessibilityRole="button"
+										accessibilityLabel={
+											isReplaying ? "Pause reply" : "Play reply again"
+										}
+										className={`flex-row items-center gap-1.5 rounded-full bg-background px-3 py-1.5 ${!isReplaying && !canReplay ? "opacity-50" : ""}`}
+									>
+										{isReplaying ? (
+											<StyledPauseIcon className="text-foreground" size={14} />
+										) : (
+											<StyledPlayIcon className="text-foreground" size={14} />
+										)}
+										<Text className="font-sans-medium text-xs text-foreground">
+											{isReplaying ? "Pause" : "Replay"}
+										</Text>
+									</Pressable>
+								)}
+							</View>
+						)}
+					</View>
+				)
+			)}
+		</View>
+	);
+}
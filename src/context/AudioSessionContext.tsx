@@ -20,9 +20,12 @@ export function AudioSessionProvider({ children }: { children: React.ReactNode }
 	const audioModeUpdateRef = useRef(Promise.resolve());
 
 	useEffect(() => {
+		// Voice sessions keep listening in the background, and their media
+		// controls only attach to a session that doesn't mix with other audio.
 		const mode = {
 			allowsRecording: isVoiceSessionActive,
-			interruptionMode: "mixWithOthers",
+			allowsBackgroundRecording: isVoiceSessionActive,
+			interruptionMode: isVoiceSessionActive ? "doNotMix" : "mixWithOthers",
 			playsInSilentMode: true,
 			shouldPlayInBackground: true,
 			shouldRouteThroughEarpiece: false,
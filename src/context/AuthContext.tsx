@@ -24,7 +24,8 @@ import {
 	statusCodes,
 } from "react-native-nitro-google-signin";
 
-import { setAuthFailureCallback } from "@/lib/api";
+import { api, setAuthFailureCallback } from "@/lib/api";
+import { clearAudioCache } from "@/lib/audio-cache";
 import {
 	clearAuthStorage,
 	getUserData,
@@ -32,7 +33,11 @@ import {
 	setStorageItemAsync,
 	setUserData,
 } from "@/lib/auth";
+import { clearChatCache } from "@/lib/chat-cache";
+import { clearExportFiles } from "@/lib/chat-export";
+import { clearOutbox } from "@/lib/outbox";
 import type { AuthContextType, StoredUser } from "@/lib/types/auth";
+import { clearVoiceOverrides } from "@/lib/voice-overrides";
 
 const AuthContext = createContext<AuthContextType | null>(null);
 
@@ -208,9 +213,23 @@ export function AuthProvider({ children }: { children: React.ReactNode }) {
 
 		// Firebase sign-out triggers onIdTokenChanged(null) which clears state.
 		await firebaseSignOut(getAuth());
-		await clearAuthStorage();
+		await Promise.all([
+			clearAuthStorage(),
+			clearChatCache(),
+			clearOutbox(),
+			clearVoiceOverrides(),
+		]);
+		clearExportFiles();
+		clearAudioCache();
 	}, []);
 
+	const deleteAccount = useCallback(async (): Promise<void> => {
+		// The server removes the Firebase user along with its data, so local
+		// state is only wiped once it confirms.
+		await api.delete("/api/account");
+		await signOut();
+	}, [signOut]);
+
 	// Register the API client's 401 recovery callback.
 	// On 401, force-refresh the Firebase token (the SDK handles the
 	// underlying OAuth refresh automatically).
@@ -243,8 +262,9 @@ export function AuthProvider({ children }: { children: React.ReactNode }) {
 			isLoading,
 			signIn,
 			signOut,
+			deleteAccount,
 		}),
-		[session, user, isLoading, signIn, signOut],
+		[session, user, isLoading, signIn, signOut, deleteAccount],
 	);
 
 	return <AuthContext.Provider value={value}>{children}</AuthContext.Provider>;
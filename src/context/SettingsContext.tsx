@@ -9,26 +9,72 @@ import {
 	useState,
 } from "react";
 
+import { useSession } from "@/context/AuthContext";
+import {
+	DEFAULT_VOICE_OPTIONS,
+	isVoiceOptions,
+	type VoiceOptions,
+} from "@/lib/voices";
+
 const SETTINGS_STORAGE_KEY = "@dearai/settings";
 
+export type TrustedContact = {
+	name: string;
+	phone: string;
+};
+
 export type AppSettings = {
 	useCameraEmotionDetection: boolean;
 	playAmbientSounds: boolean;
+	trustedContact: TrustedContact | null;
+	/** Voice chat listens for speech and sends after a pause, without taps. */
+	handsFreeVoiceMode: boolean;
+	/** How long a pause ends a hands-free turn. */
+	handsFreeSilenceMs: number;
+	/** Longest a single voice message can run before it is sent. */
+	maxUtteranceSeconds: number;
+	/** Dear AI's voice, unless a conversation picks its own. */
+	voiceOptions: VoiceOptions;
+	/** Voice chat transcribes recordings with a speech model on the device. */
+	onDeviceSpeechRecognition: boolean;
+	/** With on-device recognition, voice chat sends text and never audio. */
+	sendVoiceAsText: boolean;
+	/** Replies are spoken by a speech model on the device. */
+	onDeviceSpeechSynthesis: boolean;
 };
 
 type SettingsContextType = {
 	settings: AppSettings;
 	isLoading: boolean;
 	updateSettings: (updates: Partial<AppSettings>) => Promise<void>;
+	/** Forget every stored setting and go back to the defaults. */
+	resetSettings: () => Promise<void>;
 };
 
 const DEFAULT_SETTINGS: AppSettings = {
 	useCameraEmotionDetection: false,
 	playAmbientSounds: false,
+	trustedContact: null,
+	handsFreeVoiceMode: false,
+	handsFreeSilenceMs: 1500,
+	maxUtteranceSeconds: 60,
+	voiceOptions: DEFAULT_VOICE_OPTIONS,
+	onDeviceSpeechRecognition: false,
+	sendVoiceAsText: false,
+	onDeviceSpeechSynthesis: false,
 };
 
 const SettingsContext = createContext<SettingsContextType | null>(null);
 
+function isTrustedContact(value: unknown): value is TrustedContact {
+	if (typeof value !== "object" || value === null) {
+		return false;
+	}
+
+	const contact = value as Record<string, unknown>;
+	return typeof contact.name === "string" && typeof contact.phone === "string";
+}
+
 function isAppSettings(value: unknown): value is Partial<AppSettings> {
 	if (typeof value !== "object" || value === null) {
 		return false;
@@ -39,13 +85,31 @@ function isAppSettings(value: unknown): value is Partial<AppSettings> {
 		(settings.useCameraEmotionDetection === undefined ||
 			typeof settings.useCameraEmotionDetection === "boolean") &&
 		(settings.playAmbientSounds === undefined ||
-			typeof settings.playAmbientSounds === "boolean")
+			typeof settings.playAmbientSounds === "boolean") &&
+		(settings.trustedContact === undefined ||
+			settings.trustedContact === null ||
+			isTrustedContact(settings.trustedContact)) &&
+		(settings.handsFreeVoiceMode === undefined ||
+			typeof settings.handsFreeVoiceMode === "boolean") &&
+		(settings.handsFreeSilenceMs === undefined ||
+			typeof settings.handsFreeSilenceMs === "number") &&
+		(settings.maxUtteranceSeconds === undefined ||
+			typeof settings.maxUtteranceSeconds === "number") &&
+		(settings.voiceOptions === undefined ||
+			isVoiceOptions(settings.voiceOptions)) &&
+		(settings.onDeviceSpeechRecognition === undefined ||
+			typeof settings.onDeviceSpeechRecognition === "boolean") &&
+		(settings.sendVoiceAsText === undefined ||
+			typeof settings.sendVoiceAsText === "boolean") &&
+		(settings.onDeviceSpeechSynthesis === undefined ||
+			typeof settings.onDeviceSpeechSynthesis === "boolean")
 	);
 }
 
 export function SettingsProvider({ children }: { children: React.ReactNode }) {
 	const [settings, setSettings] = useState<AppSettings>(DEFAULT_SETTINGS);
 	const [isLoading, setIsLoading] = useState(true);
+	const { session, isLoading: isSessionLoading } = useSession();
 
 	useEffect(() => {
 		async function loadSettings() {
@@ -84,9 +148,36 @@ export function SettingsProvider({ children }: { children: React.ReactNode }) {
 		[settings],
 	);
 
+	// A trusted contact belongs to the account that added it, so it is
+	// forgotten once nobody is signed in.
+	useEffect(() => {
+		if (isLoading || isSessionLoading || session || !settings.trustedContact)
+			return;
+		AsyncStorage.setItem(
+			SETTINGS_STORAGE_KEY,
+			JSON.stringify({ ...settings, trustedContact: null }),
+		)
+			.catch((error) => {
+				console.warn("Unable to save app settings:", error);
+			})
+			.finally(() => {
+				setSettings((current) => ({ ...current, trustedContact: null }));
+			});
+	}, [isLoading, isSessionLoading, session, settings]);
+
+	const resetSettings = useCallback(async () => {
+		setSettings(DEFAULT_SETTINGS);
+
+		try {
+			await AsyncStorage.removeItem(SETTINGS_STORAGE_KEY);
+		} catch (error) {
+			console.warn("Unable to clear app settings:", error);
+		}
+	}, []);
+
 	const value = useMemo(
-		() => ({ settings, isLoading, updateSettings }),
-		[isLoading, settings, updateSettings],
+		() => ({ settings, isLoading, updateSettings, resetSettings }),
+		[isLoading, settings, updateSettings, resetSettings],
 	);
 
 	return <SettingsContext.Provider value={value}>{children}</SettingsContext.Provider>;
@@ -0,0 +1,77 @@
+import * as Sharing from "expo-sharing";
+import { strToU8, type Zippable, zipSync } from "fflate";
+
+import { api } from "./api";
+import { getUserData } from "./auth";
+import { getConversationJson, getExportFile } from "./chat-export";
+import type { Conversation } from "./types/chat";
+
+// The Diary tab only loads the latest 100 entries; the archive asks for all.
+const DIARY_EXPORT_LIMIT = 10_000;
+
+function toJson(value: unknown) {
+	return strToU8(JSON.stringify(value, null, 2));
+}
+
+function getArchiveFileName() {
+	return `dear-ai-data-${new Date().toISOString().slice(0, 10)}.zip`;
+}
+
+/**
+ * Collect everything stored about the signed-in user into a zip archive and
+ * open the system share sheet with it. `settings` are the app settings kept
+ * on this device. Resolves with the parts that had to be left out.
+ */
+export async function exportAccountData(
+	settings: object,
+): Promise<{ missing: string[] }> {
+	if (!(await Sharing.isAvailableAsync()))
+		throw new Error("Sharing is not available on this device.");
+
+	const [profile, sessions, diary] = await Promise.all([
+		getUserData(),
+		api.get<Conversation[]>("/api/sessions"),
+		api.get<unknown[]>("/api/diary", {
+			params: { limit: DIARY_EXPORT_LIMIT },
+		}),
+	]);
+
+	// Emotion logs are only kept by some versions of the service, so the
+	// archive is still made without them, saying they are missing.
+	const missing: string[] = [];
+	const optionalParts: Zippable = {};
+	try {
+		const emotions = await api.get<unknown[]>("/api/emotions");
+		optionalParts["emotions.json"] = toJson(emotions.data);
+	} catch {
+		missing.push("emotion logs");
+	}
+	if (missing.length > 0) optionalParts["missing.json"] = toJson({ missing });
+
+	// One request per conversation at a time, so large accounts don't flood
+	// the server.
+	const conversations: Zippable = {};
+	for (const conversation of sessions.data)
+		conversations[`${conversation.id}.json`] = strToU8(
+			await getConversationJson(conversation),
+		);
+
+	const archive = zipSync({
+		"profile.json": toJson(profile),
+		"settings.json": toJson(settings),
+		"sessions.json": toJson(sessions.data),
+		conversations,
+		"diary.json": toJson(diary.data),
+		...optionalParts,
+	});
+
+	const file = getExportFile(getArchiveFileName());
+	file.write(archive);
+
+	await Sharing.shareAsync(file.uri, {
+		mimeType: "application/zip",
+		UTI: "public.zip-archive",
+		dialogTitle: "Your Dear AI data",
+	});
+	return { missing };
+}
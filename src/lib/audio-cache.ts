@@ -0,0 +1,120 @@
+import { Directory, EncodingType, File, Paths } from "expo-file-system";
+
+const AUDIO_CACHE_DIRECTORY_NAME = "voice-audio";
+// Reply clips are deleted when their conversation closes, so these limits
+// mostly catch clips left behind by a crash, plus voice previews.
+const AUDIO_CACHE_MAX_BYTES = 50 * 1024 * 1024;
+const AUDIO_CACHE_MAX_AGE_MS = 7 * 24 * 60 * 60 * 1000;
+// Earlier versions wrote audio straight into the cache directory.
+const LEGACY_AUDIO_FILE_PATTERN = /^(?:dearai-voice|voice-preview)-.*\.mp3$/;
+
+function getAudioCacheDirectory() {
+	return new Directory(Paths.cache, AUDIO_CACHE_DIRECTORY_NAME);
+}
+
+function listAudioCacheFiles(): File[] {
+	const directory = getAudioCacheDirectory();
+	if (!directory.exists) return [];
+	return directory
+		.list()
+		.filter((entry): entry is File => entry instanceof File);
+}
+
+function deleteLegacyAudioFiles() {
+	for (const entry of Paths.cache.list()) {
+		if (entry instanceof File && LEGACY_AUDIO_FILE_PATTERN.test(entry.name))
+			entry.delete();
+	}
+}
+
+/**
+ * A file named `fileName` in the audio cache. It may not exist yet.
+ */
+export function getAudioCacheFile(fileName: string) {
+	const directory = getAudioCacheDirectory();
+	if (!directory.exists) directory.create({ intermediates: true });
+	return new File(directory, fileName);
+}
+
+/**
+ * Save an audio clip under a new name and return its URI. Strings are
+ * base64-encoded MP3, as the chat service sends them.
+ */
+export function writeAudioCacheFile(
+	audio: string | Uint8Array,
+	extension = "mp3",
+) {
+	const file = getAudioCacheFile(
+		`dearai-voice-${Date.now()}-${Math.random().toString(36).slice(2)}.${extension}`,
+	);
+	if (typeof audio === "string")
+		file.write(audio, { encoding: EncodingType.Base64 });
+	else file.write(audio);
+	return file.uri;
+}
+
+export function deleteAudioCacheFiles(uris: string[]) {
+	for (const uri of uris) {
+		try {
+			const file = new File(uri);
+			if (file.exists) file.delete();
+		} catch (error) {
+			console.warn("Unable to delete cached audio:", error);
+		}
+	}
+}
+
+/**
+ * Delete clips older than the age limit, then the oldest ones until the
+ * cache fits in its size limit.
+ */
+export function pruneAudioCache() {
+	try {
+		deleteLegacyAudioFiles();
+
+		const now = Date.now();
+		let totalBytes = 0;
+		const files = listAudioCacheFiles()
+			.filter((file) => {
+				if (now - (file.lastModified ?? now) <= AUDIO_CACHE_MAX_AGE_MS)
+					return true;
+				file.delete();
+				return false;
+			})
+			.sort((a, b) => (a.lastModified ?? 0) - (b.lastModified ?? 0));
+		for (const file of files) totalBytes += file.size;
+
+		for (const file of files) {
+			if (totalBytes <= AUDIO_CACHE_MAX_BYTES) break;
+			totalBytes -= file.size;
+			file.delete();
+		}
+	} catch (error) {
+		console.warn("Unable to prune cached audio:", error);
+	}
+}
+
+/**
+ * Bytes used by cached audio.
+ */
+export function getAudioCacheSize() {
+	try {
+		return listAudioCacheFiles().reduce((total, file) => total + file.size, 0);
+	} catch (error) {
+		console.warn("Unable to measure cached audio:", error);
+		return 0;
+	}
+}
+
+/**
+ * Delete every cached audio file.
+ */
+export function clearAudioCache() {
+	try {
+		deleteLegacyAudioFiles();
+		const directory = getAudioCacheDirectory();
+		if (directory.exists) directory.delete();
+	} catch (error) {
+		console.warn("Unable to clear cached audio:", error);
+	}
+}
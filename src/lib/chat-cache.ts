@@ -0,0 +1,161 @@
+import {
+	AESEncryptionKey,
+	AESSealedData,
+	aesDecryptAsync,
+	aesEncryptAsync,
+} from "expo-crypto";
+import { Directory, File, Paths } from "expo-file-system";
+
+import type { HistoryMessage } from "./chat-history";
+import { STORAGE_KEYS } from "./constants";
+import { getStorageItemAsync, setStorageItemAsync } from "./storage";
+import type { Conversation } from "./types/chat";
+
+// Conversations are cached on device so the app can render them instantly
+// and offline. Every file is sealed with AES-GCM using a key that only
+// lives in SecureStore.
+const CACHE_DIRECTORY_NAME = "chat-cache";
+const SESSIONS_FILE_NAME = "sessions";
+const MAX_CACHED_MESSAGES = 200;
+
+let encryptionKey: Promise<AESEncryptionKey> | null = null;
+
+async function loadEncryptionKey(): Promise<AESEncryptionKey> {
+	const storedKey = await getStorageItemAsync(STORAGE_KEYS.CHAT_CACHE_KEY);
+	if (storedKey) return AESEncryptionKey.import(storedKey, "base64");
+
+	const key = await AESEncryptionKey.generate();
+	await setStorageItemAsync(
+		STORAGE_KEYS.CHAT_CACHE_KEY,
+		await key.encoded("base64"),
+	);
+	return key;
+}
+
+function getEncryptionKey() {
+	if (!encryptionKey) {
+		encryptionKey = loadEncryptionKey().catch((error) => {
+			encryptionKey = null;
+			throw error;
+		});
+	}
+	return encryptionKey;
+}
+
+function getCacheDirectory() {
+	return new Directory(Paths.document, CACHE_DIRECTORY_NAME);
+}
+
+function getCacheFile(name: string) {
+	const directory = getCacheDirectory();
+	if (!directory.exists) directory.create({ intermediates: true });
+	return new File(directory, `${name.replace(/[^\w-]/g, "_")}.bin`);
+}
+
+function getMessagesFileName(sessionId: string) {
+	return `chat-${sessionId}`;
+}
+
+async function readEncrypted<T>(name: string): Promise<T | null> {
+	try {
+		const file = getCacheFile(name);
+		if (!file.exists) return null;
+		const sealedData = AESSealedData.fromCombined(await file.bytes());
+		const plaintext = await aesDecryptAsync(
+			sealedData,
+			await getEncryptionKey(),
+		);
+		return JSON.parse(new TextDecoder().decode(plaintext)) as T;
+	} catch (error) {
+		console.warn("Unable to read the chat cache:", error);
+		return null;
+	}
+}
+
+async function writeEncrypted(name: string, value: unknown): Promise<void> {
+	try {
+		const plaintext = new TextEncoder().encode(JSON.stringify(value));
+		const sealedData = await aesEncryptAsync(
+			plaintext,
+			await getEncryptionKey(),
+		);
+		getCacheFile(name).write(await sealedData.combined());
+	} catch (error) {
+		console.warn("Unable to write the chat cache:", error);
+	}
+}
+
+export function getCachedConversations() {
+	return readEncrypted<Conversation[]>(SESSIONS_FILE_NAME);
+}
+
+export function setCachedConversations(conversations: Conversation[]) {
+	return writeEncrypted(SESSIONS_FILE_NAME, conversations);
+}
+
+export function getCachedMessages(sessionId: string) {
+	return readEncrypted<HistoryMessage[]>(getMessagesFileName(sessionId));
+}
+
+/**
+ * Cache the latest messages of a conversation, oldest first.
+ */
+export function setCachedMessages(
+	sessionId: string,
+	messages: HistoryMessage[],
+) {
+	return writeEncrypted(
+		getMessagesFileName(sessionId),
+		messages.slice(-MAX_CACHED_MESSAGES),
+	);
+}
+
+/**
+ * Apply changes made to a conversation, such as a new title, to the cache.
+ */
+export async function updateCachedConversation(
+	sessionId: string,
+	updates: Partial<Conversation>,
+) {
+	const conversations = await getCachedConversations();
+	if (conversations)
+		await setCachedConversations(
+			conversations.map((conversation) =>
+				conversation.id === sessionId
+					? { ...conversation, ...updates }
+					: conversation,
+			),
+		);
+}
+
+/**
+ * Drop a conversation and its messages from the cache.
+ */
+export async function removeCachedConversation(sessionId: string) {
+	try {
+		const file = getCacheFile(getMessagesFileName(sessionId));
+		if (file.exists) file.delete();
+	} catch (error) {
+		console.warn("Unable to update the chat cache:", error);
+	}
+
+	const conversations = await getCachedConversations();
+	if (conversations)
+		await setCachedConversations(
+			conversations.filter((conversation) => conversation.id !== sessionId),
+		);
+}
+
+/**
+ * Delete the whole cache and its encryption key.
+ */
+export async function clearChatCache(): Promise<void> {
+	encryptionKey = null;
+	try {
+		const directory = getCacheDirectory();
+		if (directory.exists) directory.delete();
+	} catch (error) {
+		console.warn("Unable to clear the chat cache:", error);
+	}
+	await setStorageItemAsync(STORAGE_KEYS.CHAT_CACHE_KEY, null);
+}
@@ -0,0 +1,283 @@
+import { Directory, File, Paths } from "expo-file-system";
+import * as Print from "expo-print";
+import * as Sharing from "expo-sharing";
+
+import { getFullChatHistory, type HistoryMessage } from "./chat-history";
+import { type InlineNode, type MarkdownBlock, parseMarkdown } from "./markdown";
+import { parseSessionDate } from "./session-date";
+import type { Conversation } from "./types/chat";
+
+export type ExportFormat = "markdown" | "pdf" | "json";
+
+// Version of the JSON export layout, bumped on breaking changes.
+const JSON_EXPORT_VERSION = 1;
+const EXPORT_DIRECTORY_NAME = "exports";
+
+const FORMAT_DETAILS: Record<
+	ExportFormat,
+	{ extension: string; mimeType: string; uti: string }
+> = {
+	markdown: {
+		extension: "md",
+		mimeType: "text/markdown",
+		uti: "net.daringfireball.markdown",
+	},
+	pdf: { extension: "pdf", mimeType: "application/pdf", uti: "com.adobe.pdf" },
+	json: { extension: "json", mimeType: "application/json", uti: "public.json" },
+};
+
+type ExportedMessage = {
+	id: string;
+	role: "user" | "assistant";
+	content: string;
+};
+
+function toExportedMessage(message: HistoryMessage): ExportedMessage {
+	return {
+		id: message.id,
+		role: message.role === "user" ? "user" : "assistant",
+		content: message.content,
+	};
+}
+
+function getSpeakerName(message: ExportedMessage) {
+	return message.role === "user" ? "You" : "Dear AI";
+}
+
+function getTitle(conversation: Conversation) {
+	return conversation.title || "Untitled conversation";
+}
+
+function formatDate(dateString: string) {
+	const date = parseSessionDate(dateString);
+	return date ? date.toLocaleDateString([], { dateStyle: "long" }) : dateString;
+}
+
+function getFileName(conversation: Conversation, format: ExportFormat) {
+	const slug = getTitle(conversation)
+		.toLowerCase()
+		.replace(/[^a-z0-9]+/g, "-")
+		.replace(/^-|-$/g, "")
+		.slice(0, 60);
+	return `${slug || "conversation"}.${FORMAT_DETAILS[format].extension}`;
+}
+
+function renderConversationMarkdown(
+	conversation: Conversation,
+	messages: ExportedMessage[],
+) {
+	const lines = [
+		`# ${getTitle(conversation)}`,
+		"",
+		`_Started ${formatDate(conversation.created_at)}, exported from Dear AI on ${formatDate(new Date().toISOString())}._`,
+	];
+	for (const message of messages)
+		lines.push(
+			"",
+			"---",
+			"",
+			`**${getSpeakerName(message)}**`,
+			"",
+			message.content.trim(),
+		);
+	return `${lines.join("\n")}\n`;
+}
+
+function renderConversationJson(
+	conversation: Conversation,
+	messages: ExportedMessage[],
+) {
+	return JSON.stringify(
+		{
+			version: JSON_EXPORT_VERSION,
+			exported_at: new Date().toISOString(),
+			conversation: {
+				id: conversation.id,
+				title: conversation.title,
+				mode: conversation.mode ?? "text",
+				created_at: conversation.created_at,
+				updated_at: conversation.updated_at,
+			},
+			messages,
+		},
+		null,
+		2,
+	);
+}
+
+function escapeHtml(text: string) {
+	return text
+		.replace(/&/g, "&amp;")
+		.replace(/</g, "&lt;")
+		.replace(/>/g, "&gt;")
+		.replace(/"/g, "&quot;");
+}
+
+function inlineToHtml(nodes: InlineNode[]): string {
+	return nodes
+		.map((node) => {
+			switch (node.type) {
+				case "text":
+					return escapeHtml(node.text).replace(/\n/g, "<br />");
+				case "strong":
+					return `<strong>${inlineToHtml(node.children)}</strong>`;
+				case "emphasis":
+					return `<em>${inlineToHtml(node.children)}</em>`;
+				case "code":
+					return `<code>${escapeHtml(node.text)}</code>`;
+				case "link":
+					return /^https?:\/\//i.test(node.href)
+						? `<a href="${escapeHtml(node.href)}">${inlineToHtml(node.children)}</a>`
+						: inlineToHtml(node.children);
+			}
+			return "";
+		})
+		.join("");
+}
+
+function blocksToHtml(blocks: MarkdownBlock[]): string {
+	return blocks
+		.map((block) => {
+			switch (block.type) {
+				case "paragraph":
+					return `<p>${inlineToHtml(block.children)}</p>`;
+				case "heading": {
+					const level = Math.min(block.level + 2, 6);
+					return `<h${level}>${inlineToHtml(block.children)}</h${level}>`;
+				}
+				case "list": {
+					const items = block.items
+						.map((item) => `<li>${inlineToHtml(item)}</li>`)
+						.join("");
+					return block.ordered
+						? `<ol start="${block.start}">${items}</ol>`
+						: `<ul>${items}</ul>`;
+				}
+				case "quote":
+					return `<blockquote>${blocksToHtml(block.blocks)}</blockquote>`;
+				case "code":
+					return `<pre><code>${escapeHtml(block.text)}</code></pre>`;
+			}
+			return "";
+		})
+		.join("");
+}
+
+function renderConversationHtml(
+	conversation: Conversation,
+	messages: ExportedMessage[],
+) {
+	const body = messages
+		.map(
+			(message) => `
+		<section class="message ${message.role}">
+			<div class="speaker">${getSpeakerName(message)}</div>
+			${
+				message.role === "user"
+					? `<p>${escapeHtml(message.content).replace(/\n/g, "<br />")}</p>`
+					: blocksToHtml(parseMarkdown(message.content))
+			}
+		</section>`,
+		)
+		.join("");
+
+	return `<!DOCTYPE html>
+<html>
+<head>
+	<meta charset="utf-8" />
+	<style>
+		body { font-family: -apple-system, Roboto, "Helvetica Neue", sans-serif; color: #2b2825; margin: 32px; line-height: 1.5; }
+		h1 { font-family: Georgia, serif; font-weight: normal; margin-bottom: 4px; }
+		.meta { color: #8a8680; font-size: 13px; margin-bottom: 28px; }
+		.message { padding: 12px 16px; border-radius: 16px; margin-bottom: 12px; page-break-inside: avoid; }
+		.message.user { background: #f3ede6; }
+		.message.assistant { border: 1px solid #e7e1da; }
+		.speaker { font-size: 11px; text-transform: uppercase; letter-spacing: 0.06em; color: #8a8680; margin-bottom: 4px; }
+		p { margin: 0 0 8px; }
+		blockquote { border-left: 3px solid #e7e1da; margin: 0 0 8px; padding-left: 12px; color: #5f5a55; }
+		code { font-family: Menlo, monospace; font-size: 13px; }
+		pre { background: #f6f3ef; padding: 8px 12px; border-radius: 8px; white-space: pre-wrap; }
+	</style>
+</head>
+<body>
+	<h1>${escapeHtml(getTitle(conversation))}</h1>
+	<div class="meta">Started ${escapeHtml(formatDate(conversation.created_at))} · Exported from Dear AI on ${escapeHtml(formatDate(new Date().toISOString()))}</div>
+	${body}
+</body>
+</html>`;
+}
+
+function getExportDirectory() {
+	return new Directory(Paths.cache, EXPORT_DIRECTORY_NAME);
+}
+
+/**
+ * An empty file named `fileName` in the exports folder, replacing any earlier
+ * export with the same name.
+ */
+export function getExportFile(fileName: string) {
+	const directory = getExportDirectory();
+	if (!directory.exists) directory.create({ intermediates: true });
+	const file = new File(directory, fileName);
+	if (file.exists) file.delete();
+	return file;
+}
+
+/**
+ * Delete every file written by an export.
+ */
+export function clearExportFiles() {
+	try {
+		const directory = getExportDirectory();
+		if (directory.exists) directory.delete();
+	} catch (error) {
+		console.warn("Unable to clear exported files:", error);
+	}
+}
+
+/**
+ * The whole conversation in the JSON export layout.
+ */
+export async function getConversationJson(conversation: Conversation) {
+	const messages = (await getFullChatHistory(conversation.id)).map(
+		toExportedMessage,
+	);
+	return renderConversationJson(conversation, messages);
+}
+
+/**
+ * Export the whole conversation in `format` and open the system share sheet
+ * with the resulting file.
+ */
+export async function exportConversation(
+	conversation: Conversation,
+	format: ExportFormat,
+) {
+	if (!(await Sharing.isAvailableAsync()))
+		throw new Error("Sharing is not available on this device.");
+
+	const messages = (await getFullChatHistory(conversation.id)).map(
+		toExportedMessage,
+	);
+	const file = getExportFile(getFileName(conversation, format));
+
+	if (format === "pdf") {
+		const { uri } = await Print.printToFileAsync({
+			html: renderConversationHtml(conversation, messages),
+		});
+		new File(uri).move(file);
+	} else {
+		file.write(
+			format === "markdown"
+				? renderConversationMarkdown(conversation, messages)
+				: renderConversationJson(conversation, messages),
+		);
+	}
+
+	const { mimeType, uti } = FORMAT_DETAILS[format];
+	await Sharing.shareAsync(file.uri, {
+		mimeType,
+		UTI: uti,
+		dialogTitle: getTitle(conversation),
+	});
+}
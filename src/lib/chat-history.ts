@@ -0,0 +1,88 @@
+import { api } from "./api";
+
+export const CHAT_HISTORY_PAGE_SIZE = 50;
+// The largest page `/api/chats/:id` returns.
+const FULL_HISTORY_PAGE_SIZE = 100;
+
+// A message as returned by `/api/chats/:id`.
+export type HistoryMessage = {
+	id: string;
+	role: "user" | "ai" | "assistant";
+	content: string;
+};
+
+export type ChatHistoryPage = {
+	/** Messages in chronological order. */
+	messages: HistoryMessage[];
+	/** Whether older messages exist before this page. */
+	hasMore: boolean;
+};
+
+// Pages older than the latest one never change, so they are kept for the
+// lifetime of the app and reused when a conversation is opened again.
+const pageCache = new Map<string, ChatHistoryPage>();
+
+function getPageCacheKey(sessionId: string, before: string, limit: number) {
+	return `${sessionId}:${before}:${limit}`;
+}
+
+/**
+ * Fetch a page of a conversation. Without `before` this is the latest page;
+ * with it, the page of messages sent just before that message id.
+ */
+export async function getChatHistoryPage(
+	sessionId: string,
+	{
+		before,
+		limit = CHAT_HISTORY_PAGE_SIZE,
+	}: { before?: string; limit?: number } = {},
+): Promise<ChatHistoryPage> {
+	const cacheKey = before && getPageCacheKey(sessionId, before, limit);
+	const cachedPage = cacheKey && pageCache.get(cacheKey);
+	if (cachedPage) return cachedPage;
+
+	const response = await api.get<HistoryMessage[]>(`/api/chats/${sessionId}`, {
+		params: { limit, before },
+	});
+	const page = {
+		messages: response.data,
+		hasMore: response.data.length >= limit,
+	};
+	if (cacheKey) pageCache.set(cacheKey, page);
+	return page;
+}
+
+/**
+ * Fetch every message of a conversation, oldest first, paging back until
+ * the start of the conversation.
+ */
+export async function getFullChatHistory(
+	sessionId: string,
+): Promise<HistoryMessage[]> {
+	let page = await getChatHistoryPage(sessionId, {
+		limit: FULL_HISTORY_PAGE_SIZE,
+	});
+	let messages = page.messages;
+	while (page.hasMore && messages.length > 0) {
+		page = await getChatHistoryPage(sessionId, {
+			before: messages[0].id,
+			limit: FULL_HISTORY_PAGE_SIZE,
+		});
+		messages = [...page.messages, ...messages];
+	}
+	return messages;
+}
+
+/**
+ * Delete a stored message and drop it from any cached pages.
+ */
+export async function deleteChatMessage(sessionId: string, messageId: string) {
+	await api.delete(`/api/chats/${sessionId}/messages/${messageId}`);
+	for (const [key, page] of pageCache) {
+		if (!key.startsWith(`${sessionId}:`)) continue;
+		pageCache.set(key, {
+			...page,
+			messages: page.messages.filter((message) => message.id !== messageId),
+		});
+	}
+}
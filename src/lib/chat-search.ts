@@ -0,0 +1,107 @@
+import { api } from "./api";
+import { getCachedConversations, getCachedMessages } from "./chat-cache";
+import type { HistoryMessage } from "./chat-history";
+import type { Conversation } from "./types/chat";
+
+// A conversation matching a search, as returned by `/api/search`.
+export type SessionSearchResult = {
+	session: Conversation;
+	/** Matching messages in chronological order; empty for title matches. */
+	messages: HistoryMessage[];
+};
+
+export type SearchResults = {
+	results: SessionSearchResult[];
+	/** Whether the results come from the local cache. */
+	isFromCache: boolean;
+};
+
+export type TextSegment = {
+	text: string;
+	isMatch: boolean;
+};
+
+const MAX_CACHED_MATCHES_PER_SESSION = 5;
+const SNIPPET_LEADING_CHARACTERS = 40;
+
+function includesQuery(text: string, query: string) {
+	return text.toLocaleLowerCase().includes(query.toLocaleLowerCase());
+}
+
+/**
+ * Split `text` into the parts matching `query` and the parts between them,
+ * ignoring case.
+ */
+export function splitMatches(text: string, query: string): TextSegment[] {
+	const needle = query.trim().toLocaleLowerCase();
+	if (!needle) return [{ text, isMatch: false }];
+
+	const haystack = text.toLocaleLowerCase();
+	const segments: TextSegment[] = [];
+	let index = 0;
+	while (index < text.length) {
+		const matchIndex = haystack.indexOf(needle, index);
+		if (matchIndex === -1) break;
+		if (matchIndex > index)
+			segments.push({ text: text.slice(index, matchIndex), isMatch: false });
+		segments.push({
+			text: text.slice(matchIndex, matchIndex + needle.length),
+			isMatch: true,
+		});
+		index = matchIndex + needle.length;
+	}
+	if (index < text.length)
+		segments.push({ text: text.slice(index), isMatch: false });
+	return segments;
+}
+
+/**
+ * Shorten a message to a single line starting a little before the first
+ * match, so the match is visible in a one-line preview.
+ */
+export function createSnippet(text: string, query: string) {
+	const line = text.replace(/\s+/g, " ").trim();
+	const matchIndex = line
+		.toLocaleLowerCase()
+		.indexOf(query.trim().toLocaleLowerCase());
+	if (matchIndex <= SNIPPET_LEADING_CHARACTERS) return line;
+	const start = line.lastIndexOf(" ", matchIndex - SNIPPET_LEADING_CHARACTERS);
+	return `…${line.slice(start + 1)}`;
+}
+
+async function searchCache(query: string): Promise<SessionSearchResult[]> {
+	const sessions = (await getCachedConversations()) ?? [];
+	const results: SessionSearchResult[] = [];
+	for (const session of sessions) {
+		const messages = (await getCachedMessages(session.id)) ?? [];
+		const matches = messages.filter((message) =>
+			includesQuery(message.content, query),
+		);
+		if (matches.length > 0 || includesQuery(session.title, query))
+			results.push({
+				session,
+				messages: matches.slice(-MAX_CACHED_MATCHES_PER_SESSION),
+			});
+	}
+	return results;
+}
+
+/**
+ * Search conversation titles and messages. Falls back to the conversations
+ * cached on device when the server can't be reached.
+ */
+export async function searchConversations(
+	query: string,
+): Promise<SearchResults> {
+	const trimmedQuery = query.trim();
+	if (!trimmedQuery) return { results: [], isFromCache: false };
+
+	try {
+		const response = await api.get<SessionSearchResult[]>("/api/search", {
+			params: { q: trimmedQuery },
+		});
+		return { results: response.data, isFromCache: false };
+	} catch {
+		return { results: await searchCache(trimmedQuery), isFromCache: true };
+	}
+}
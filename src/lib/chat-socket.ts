@@ -0,0 +1,384 @@
+import { useCallback, useEffect, useRef, useState } from "react";
+
+import { createChatWebSocketUrl } from "./api";
+
+export const CHAT_SOCKET_MAX_RETRIES = 5;
+const MAX_RETRY_DELAY_MS = 16_000;
+const HEARTBEAT_INTERVAL_MS = 25_000;
+const HEARTBEAT_TIMEOUT_MS = 10_000;
+// The chat service closes the connection on any frame larger than this.
+export const CHAT_SOCKET_MAX_FRAME_BYTES = 1024 * 1024;
+
+const TEXT_LAYERS = [
+	"immediate",
+	"rag",
+	"emergency",
+	"irrelevant",
+	"transcript",
+] as const;
+
+type TextLayer = (typeof TEXT_LAYERS)[number];
+
+// Events the chat service streams back for a turn. Every frame may carry
+// `final: true` to mark the end of the current reply.
+export type ChatSocketEvent =
+	| { layer: "session_id"; content: string; final?: boolean }
+	| { layer: TextLayer; content?: string; final?: boolean }
+	| { layer: "audio"; audio?: string; content?: string; final?: boolean };
+
+export type ChatSocketLayer = ChatSocketEvent["layer"];
+
+// Frames the app sends. Text chats send `content`. Voice chats stream the
+// microphone while the user speaks: an `audio_start` frame with the voice
+// options and PCM format, binary frames of raw audio, then `audio_end`.
+// Meanwhile the server sends `transcript` frames holding the transcript so
+// far. When speech is recognized on the device, a single `voice_transcript`
+// frame carries the text instead, and the reply is still spoken. A `cancel`
+// frame stops the reply in progress, which the server still ends with a
+// `final` frame.
+export type ChatSocketPayload =
+	| {
+			content: string;
+			session_id?: string;
+			/**
+			 * Replaces the stored reply to `content`, the latest user message,
+			 * instead of adding a new message.
+			 */
+			regenerate?: boolean;
+	  }
+	| {
+			type: "audio_start";
+			voice_mode: true;
+			voice: string;
+			speaking_rate: number;
+			pitch: number;
+			session_id?: string;
+			encoding: "pcm_s16le";
+			sample_rate: number;
+			channels: number;
+	  }
+	| { type: "audio_end"; emotions?: string[] }
+	| {
+			type: "voice_transcript";
+			content: string;
+			voice_mode: true;
+			voice: string;
+			speaking_rate: number;
+			pitch: number;
+			session_id?: string;
+			emotions?: string[];
+	  }
+	| { type: "cancel"; session_id?: string };
+
+export type ChatSocketStatus =
+	| "connecting"
+	| "open"
+	| "reconnecting"
+	| "closed";
+
+export type ChatSocketState = {
+	status: ChatSocketStatus;
+	/** Reconnect attempt in progress, 0 while connected or on first connect. */
+	attempt: number;
+};
+
+export type ChatSocketListener = {
+	onEvent?: (event: ChatSocketEvent) => void;
+	onStatusChange?: (state: ChatSocketState) => void;
+	/** Called with the raw frame when it fails validation. */
+	onInvalidEvent?: (data: unknown) => void;
+};
+
+export type ChatSocket = {
+	getState: () => ChatSocketState;
+	/** Sends a frame, returning false when the socket is not open. */
+	send: (payload: ChatSocketPayload) => boolean;
+	/** Sends a binary audio frame, returning false when the socket is not open. */
+	sendAudio: (chunk: ArrayBuffer) => boolean;
+	/** Adds a listener, which is immediately told the current status. */
+	subscribe: (listener: ChatSocketListener) => () => void;
+	/** Reconnects immediately, resetting the retry budget. */
+	reconnect: () => void;
+	close: () => void;
+};
+
+/**
+ * Bytes a payload takes on the wire, to check against
+ * `CHAT_SOCKET_MAX_FRAME_BYTES` before sending.
+ */
+export function getChatSocketFrameBytes(payload: ChatSocketPayload) {
+	return new TextEncoder().encode(JSON.stringify(payload)).byteLength;
+}
+
+function isOptionalString(value: unknown) {
+	return value === undefined || typeof value === "string";
+}
+
+/**
+ * Validates a decoded frame against the chat protocol. Returns null for
+ * anything that is not a known layer with well-typed fields.
+ */
+export function parseChatSocketEvent(data: unknown): ChatSocketEvent | null {
+	if (typeof data !== "object" || data === null) return null;
+
+	const frame = data as Record<string, unknown>;
+	if (frame.final !== undefined && typeof frame.final !== "boolean")
+		return null;
+	if (!isOptionalString(frame.content)) return null;
+
+	const final = frame.final as boolean | undefined;
+	const content = frame.content as string | undefined;
+
+	if (frame.layer === "session_id") {
+		if (!content) return null;
+		return { layer: "session_id", content, final };
+	}
+	if (frame.layer === "audio") {
+		if (!isOptionalString(frame.audio)) return null;
+		return {
+			layer: "audio",
+			audio: frame.audio as string | undefined,
+			content,
+			final,
+		};
+	}
+	if (TEXT_LAYERS.includes(frame.layer as TextLayer)) {
+		return { layer: frame.layer as TextLayer, content, final };
+	}
+	return null;
+}
+
+function getRetryDelay(attempt: number) {
+	return Math.min(1000 * 2 ** (attempt - 1), MAX_RETRY_DELAY_MS);
+}
+
+/**
+ * Opens the streaming chat socket and keeps it alive. Dropped connections
+ * are retried with exponential backoff, and a ping is sent after a while
+ * without traffic so half-open connections are detected. The service
+ * answers with a `pong` layer, which is consumed here and never reaches
+ * subscribers; a connection that has never answered is not timed out.
+ */
+export function createChatSocket(idToken: string): ChatSocket {
+	const listeners = new Set<ChatSocketListener>();
+	let socket: WebSocket | null = null;
+	let state: ChatSocketState = { status: "connecting", attempt: 0 };
+	let retryTimeout: ReturnType<typeof setTimeout> | null = null;
+	let heartbeatTimer: ReturnType<typeof setTimeout> | null = null;
+	let heartbeatTimeout: ReturnType<typeof setTimeout> | null = null;
+	// Services without heartbeat support never answer a ping, so the
+	// timeout is only enforced once this connection has seen a pong.
+	let hasReceivedPong = false;
+	// When a frame was last sent or received; pings only fill silences.
+	let lastTrafficAt = 0;
+	let isClosed = false;
+
+	function setState(nextState: ChatSocketState) {
+		state = nextState;
+		for (const listener of listeners) listener.onStatusChange?.(state);
+	}
+
+	function stopHeartbeat() {
+		if (heartbeatTimer != null) clearTimeout(heartbeatTimer);
+		if (heartbeatTimeout != null) clearTimeout(heartbeatTimeout);
+		heartbeatTimer = null;
+		heartbeatTimeout = null;
+	}
+
+	function sendFrame(current: WebSocket, frame: string | ArrayBuffer) {
+		current.send(frame);
+		lastTrafficAt = Date.now();
+	}
+
+	// Pings once the connection has been quiet for a full interval, so a
+	// ping never lands in the middle of a streamed reply or voice upload.
+	function scheduleHeartbeat(current: WebSocket) {
+		const quietMs = Date.now() - lastTrafficAt;
+		heartbeatTimer = setTimeout(
+			() => {
+				heartbeatTimer = null;
+				if (current.readyState !== WebSocket.OPEN) return;
+				if (
+					Date.now() - lastTrafficAt >= HEARTBEAT_INTERVAL_MS &&
+					heartbeatTimeout == null
+				) {
+					sendFrame(current, JSON.stringify({ type: "ping" }));
+					if (hasReceivedPong)
+						heartbeatTimeout = setTimeout(() => {
+							// No frame arrived since the ping; treat the connection as dead.
+							current.close();
+						}, HEARTBEAT_TIMEOUT_MS);
+				}
+				scheduleHeartbeat(current);
+			},
+			Math.max(HEARTBEAT_INTERVAL_MS - quietMs, 0),
+		);
+	}
+
+	function startHeartbeat(current: WebSocket) {
+		stopHeartbeat();
+		hasReceivedPong = false;
+		lastTrafficAt = Date.now();
+		scheduleHeartbeat(current);
+	}
+
+	function handleMessage(data: unknown) {
+		// Any frame proves the connection is alive.
+		lastTrafficAt = Date.now();
+		if (heartbeatTimeout != null) {
+			clearTimeout(heartbeatTimeout);
+			heartbeatTimeout = null;
+		}
+
+		let decoded: unknown;
+		try {
+			decoded = typeof data === "string" ? JSON.parse(data) : data;
+		} catch {
+			decoded = data;
+		}
+		if (
+			typeof decoded === "object" &&
+			decoded !== null &&
+			(decoded as { layer?: unknown }).layer === "pong"
+		) {
+			hasReceivedPong = true;
+			return;
+		}
+
+		const event = parseChatSocketEvent(decoded);
+		for (const listener of listeners) {
+			if (event) listener.onEvent?.(event);
+			else listener.onInvalidEvent?.(decoded);
+		}
+	}
+
+	function scheduleReconnect() {
+		const attempt = state.attempt + 1;
+		if (attempt > CHAT_SOCKET_MAX_RETRIES) {
+			setState({ status: "closed", attempt: state.attempt });
+			return;
+		}
+		setState({ status: "reconnecting", attempt });
+		retryTimeout = setTimeout(() => {
+			retryTimeout = null;
+			connect();
+		}, getRetryDelay(attempt));
+	}
+
+	function connect() {
+		const current = new WebSocket(createChatWebSocketUrl(idToken));
+		socket = current;
+
+		current.onopen = () => {
+			setState({ status: "open", attempt: 0 });
+			startHeartbeat(current);
+		};
+		current.onmessage = (event) => handleMessage(event.data);
+		current.onerror = () => {
+			// Reconnect handled in onclose
+		};
+		current.onclose = () => {
+			if (socket !== current) return;
+			socket = null;
+			stopHeartbeat();
+			if (!isClosed) scheduleReconnect();
+		};
+	}
+
+	connect();
+
+	return {
+		getState: () => state,
+		send(payload) {
+			if (!socket || socket.readyState !== WebSocket.OPEN) return false;
+			sendFrame(socket, JSON.stringify(payload));
+			return true;
+		},
+		sendAudio(chunk) {
+			if (!socket || socket.readyState !== WebSocket.OPEN) return false;
+			sendFrame(socket, chunk);
+			return true;
+		},
+		subscribe(listener) {
+			listeners.add(listener);
+			listener.onStatusChange?.(state);
+			return () => {
+				listeners.delete(listener);
+			};
+		},
+		reconnect() {
+			if (isClosed) return;
+			if (retryTimeout != null) clearTimeout(retryTimeout);
+			retryTimeout = null;
+			stopHeartbeat();
+			const previous = socket;
+			socket = null; // Prevent onclose from scheduling a retry.
+			previous?.close();
+			setState({ status: "connecting", attempt: 0 });
+			connect();
+		},
+		close() {
+			isClosed = true;
+			if (retryTimeout != null) clearTimeout(retryTimeout);
+			retryTimeout = null;
+			stopHeartbeat();
+			const previous = socket;
+			socket = null;
+			previous?.close();
+			listeners.clear();
+		},
+	};
+}
+
+/**
+ * Hook that keeps a chat socket open for the given ID token. The listener
+ * may change between renders; the latest one always receives events.
+ */
+export function useChatSocket(
+	idToken: string | null,
+	listener: ChatSocketListener,
+) {
+	const socketRef = useRef<ChatSocket | null>(null);
+	const listenerRef = useRef(listener);
+	const [state, setState] = useState<ChatSocketState>({
+		status: "connecting",
+		attempt: 0,
+	});
+
+	useEffect(() => {
+		listenerRef.current = listener;
+	});
+
+	useEffect(() => {
+		if (!idToken) return;
+		const chatSocket = createChatSocket(idToken);
+		socketRef.current = chatSocket;
+		const unsubscribe = chatSocket.subscribe({
+			onEvent: (event) => listenerRef.current.onEvent?.(event),
+			onStatusChange: (nextState) => {
+				setState(nextState);
+				listenerRef.current.onStatusChange?.(nextState);
+			},
+			onInvalidEvent: (data) => listenerRef.current.onInvalidEvent?.(data),
+		});
+		return () => {
+			unsubscribe();
+			chatSocket.close();
+			if (socketRef.current === chatSocket) socketRef.current = null;
+		};
+	}, [idToken]);
+
+	const send = useCallback(
+		(payload: ChatSocketPayload) => socketRef.current?.send(payload) ?? false,
+		[],
+	);
+
+	const sendAudio = useCallback(
+		(chunk: ArrayBuffer) => socketRef.current?.sendAudio(chunk) ?? false,
+		[],
+	);
+
+	const reconnect = useCallback(() => socketRef.current?.reconnect(), []);
+
+	return { state, send, sendAudio, reconnect };
+}
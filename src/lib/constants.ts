@@ -2,4 +2,5 @@
 export const STORAGE_KEYS = {
 	ID_TOKEN: "idToken",
 	USER_DATA: "userData",
+	CHAT_CACHE_KEY: "chatCacheKey",
 } as const;
@@ -0,0 +1,161 @@
+import * as Linking from "expo-linking";
+import { getLocales } from "expo-localization";
+import { Platform } from "react-native";
+
+export type CrisisLine = {
+	name: string;
+	description: string;
+	/** Number to call, if the line takes calls. */
+	phone?: string;
+	/** Number to text, and the keyword to start the conversation with. */
+	sms?: { number: string; body?: string };
+	url?: string;
+};
+
+export type CrisisResources = {
+	region: string;
+	emergencyNumber: string;
+	lines: CrisisLine[];
+};
+
+const FIND_A_HELPLINE: CrisisLine = {
+	name: "Find A Helpline",
+	description: "Free, confidential support lines in your country",
+	url: "https://findahelpline.com",
+};
+
+// Crisis lines by ISO 3166 region code.
+const CRISIS_RESOURCES: Record<string, CrisisResources> = {
+	US: {
+		region: "US",
+		emergencyNumber: "911",
+		lines: [
+			{
+				name: "988 Suicide & Crisis Lifeline",
+				description: "Call or text, 24/7",
+				phone: "988",
+				sms: { number: "988" },
+			},
+			{
+				name: "Crisis Text Line",
+				description: "Text HOME to 741741, 24/7",
+				sms: { number: "741741", body: "HOME" },
+			},
+		],
+	},
+	CA: {
+		region: "CA",
+		emergencyNumber: "911",
+		lines: [
+			{
+				name: "9-8-8 Suicide Crisis Helpline",
+				description: "Call or text, 24/7",
+				phone: "988",
+				sms: { number: "988" },
+			},
+		],
+	},
+	GB: {
+		region: "GB",
+		emergencyNumber: "999",
+		lines: [
+			{
+				name: "Samaritans",
+				description: "Call free, 24/7",
+				phone: "116123",
+			},
+			{
+				name: "Shout",
+				description: "Text SHOUT to 85258, 24/7",
+				sms: { number: "85258", body: "SHOUT" },
+			},
+		],
+	},
+	IE: {
+		region: "IE",
+		emergencyNumber: "112",
+		lines: [
+			{
+				name: "Samaritans",
+				description: "Call free, 24/7",
+				phone: "116123",
+			},
+			{
+				name: "Text About It",
+				description: "Text HELLO to 50808, 24/7",
+				sms: { number: "50808", body: "HELLO" },
+			},
+		],
+	},
+	AU: {
+		region: "AU",
+		emergencyNumber: "000",
+		lines: [
+			{
+				name: "Lifeline",
+				description: "Call or text, 24/7",
+				phone: "131114",
+				sms: { number: "0477131114" },
+			},
+		],
+	},
+	NZ: {
+		region: "NZ",
+		emergencyNumber: "111",
+		lines: [
+			{
+				name: "1737, Need to talk?",
+				description: "Call or text, 24/7",
+				phone: "1737",
+				sms: { number: "1737" },
+			},
+		],
+	},
+	IN: {
+		region: "IN",
+		emergencyNumber: "112",
+		lines: [
+			{
+				name: "Tele MANAS",
+				description: "Call free, 24/7",
+				phone: "14416",
+			},
+		],
+	},
+};
+
+// The region set on the device, which unlike the language's default region
+// matches where the user lives.
+function getDeviceRegion() {
+	return getLocales()[0].regionCode;
+}
+
+/**
+ * Get the crisis lines for the device's region, always including an
+ * international directory for regions without a dedicated entry.
+ */
+export function getCrisisResources(
+	region = getDeviceRegion(),
+): CrisisResources {
+	const resources = region ? CRISIS_RESOURCES[region] : undefined;
+	if (!resources)
+		return {
+			region: region ?? "",
+			emergencyNumber: "112",
+			lines: [FIND_A_HELPLINE],
+		};
+	return { ...resources, lines: [...resources.lines, FIND_A_HELPLINE] };
+}
+
+export function callNumber(phone: string) {
+	return Linking.openURL(`tel:${phone}`);
+}
+
+export function textNumber(number: string, body?: string) {
+	if (!body) return Linking.openURL(`sms:${number}`);
+	// iOS expects the body after "&", Android after "?".
+	const separator = Platform.OS === "ios" ? "&" : "?";
+	return Linking.openURL(
+		`sms:${number}${separator}body=${encodeURIComponent(body)}`,
+	);
+}
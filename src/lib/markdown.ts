@@ -0,0 +1,294 @@
+// A small markdown parser for assistant replies. It covers what the chat
+// service produces (paragraphs, headings, lists, quotes, code, emphasis and
+// links) and can parse a reply while it is still streaming in: unclosed
+// markers are applied optimistically instead of flashing as raw symbols.
+
+export type InlineNode =
+	| { type: "text"; text: string }
+	| { type: "strong" | "emphasis"; children: InlineNode[] }
+	| { type: "code"; text: string }
+	| { type: "link"; href: string; children: InlineNode[] };
+
+export type MarkdownBlock =
+	| { type: "paragraph"; children: InlineNode[] }
+	| { type: "heading"; level: number; children: InlineNode[] }
+	| { type: "list"; ordered: boolean; start: number; items: InlineNode[][] }
+	| { type: "quote"; blocks: MarkdownBlock[] }
+	| { type: "code"; text: string };
+
+type ParseOptions = {
+	/** Whether more text may still arrive after `source`. */
+	isStreaming?: boolean;
+};
+
+const FENCE_PATTERN = /^\s*```/;
+const HEADING_PATTERN = /^\s*(#{1,6})\s+(.*)$/;
+const QUOTE_PATTERN = /^\s*>\s?(.*)$/;
+const UNORDERED_ITEM_PATTERN = /^\s*[-*+]\s+(.*)$/;
+const ORDERED_ITEM_PATTERN = /^\s*(\d+)[.)]\s+(.*)$/;
+// A line holding only the start of a block marker, e.g. "-" or "##".
+const PARTIAL_MARKER_PATTERN = /^\s*([-*+>]|#{1,6}|\d+[.)]?)\s*$/;
+const LINK_PATTERN = /^\[([^\]]*)\]\(([^)\s]*)\)/;
+const PARTIAL_LINK_PATTERN = /^\[([^\]]*)(\]\([^)]*)?$/;
+
+function isBlockStart(line: string) {
+	return (
+		FENCE_PATTERN.test(line) ||
+		HEADING_PATTERN.test(line) ||
+		QUOTE_PATTERN.test(line) ||
+		UNORDERED_ITEM_PATTERN.test(line) ||
+		ORDERED_ITEM_PATTERN.test(line)
+	);
+}
+
+function parseInlineUntil(
+	source: string,
+	start: number,
+	closer: string | null,
+	isStreaming: boolean,
+): { nodes: InlineNode[]; end: number; isClosed: boolean } {
+	const nodes: InlineNode[] = [];
+	let text = "";
+	let index = start;
+
+	const flushText = () => {
+		if (text) nodes.push({ type: "text", text });
+		text = "";
+	};
+
+	while (index < source.length) {
+		// Inside single-marker emphasis a doubled marker may open strong text,
+		// as in `*a **b** c*`, so that is tried before closing.
+		const isDoubledCloser =
+			closer?.length === 1 && source.startsWith(closer + closer, index);
+		if (closer && source.startsWith(closer, index) && !isDoubledCloser) {
+			flushText();
+			return { nodes, end: index + closer.length, isClosed: true };
+		}
+
+		const char = source[index];
+
+		if (char === "\\" && index + 1 < source.length) {
+			text += source[index + 1];
+			index += 2;
+			continue;
+		}
+
+		if (char === "`") {
+			const end = source.indexOf("`", index + 1);
+			if (end !== -1 || isStreaming) {
+				flushText();
+				const codeEnd = end === -1 ? source.length : end;
+				nodes.push({ type: "code", text: source.slice(index + 1, codeEnd) });
+				index = end === -1 ? source.length : end + 1;
+				continue;
+			}
+		}
+
+		if (char === "[") {
+			// Sliced only here, as slicing at every character makes parsing
+			// quadratic.
+			const rest = source.slice(index);
+			const link = LINK_PATTERN.exec(rest);
+			if (link) {
+				flushText();
+				nodes.push({
+					type: "link",
+					href: link[2],
+					children: parseInline(link[1], { isStreaming: false }),
+				});
+				index += link[0].length;
+				continue;
+			}
+			const partialLink = isStreaming && PARTIAL_LINK_PATTERN.exec(rest);
+			if (partialLink) {
+				// Show the label until the rest of the link arrives.
+				flushText();
+				nodes.push(...parseInline(partialLink[1], { isStreaming }));
+				index = source.length;
+				continue;
+			}
+		}
+
+		if (char === "*" || char === "_") {
+			const marker = source.startsWith(char + char, index) ? char + char : char;
+			const next = source[index + marker.length];
+			// Underscores inside words (snake_case) are not emphasis, and an
+			// opening marker must be followed by text.
+			const isIntraword = char === "_" && /\w/.test(source[index - 1] ?? "");
+			const canOpen = next === undefined ? isStreaming : next.trim().length > 0;
+			if (!isIntraword && canOpen) {
+				const inner = parseInlineUntil(
+					source,
+					index + marker.length,
+					marker,
+					isStreaming,
+				);
+				if (inner.isClosed || isStreaming) {
+					flushText();
+					if (inner.nodes.length > 0)
+						nodes.push({
+							type: marker.length === 2 ? "strong" : "emphasis",
+							children: inner.nodes,
+						});
+					index = inner.end;
+					continue;
+				}
+			}
+			if (isDoubledCloser) {
+				flushText();
+				return { nodes, end: index + 1, isClosed: true };
+			}
+			text += marker;
+			index += marker.length;
+			continue;
+		}
+
+		text += char;
+		index += 1;
+	}
+
+	flushText();
+	return { nodes, end: index, isClosed: false };
+}
+
+export function parseInline(
+	source: string,
+	{ isStreaming = false }: ParseOptions = {},
+): InlineNode[] {
+	return parseInlineUntil(source, 0, null, isStreaming).nodes;
+}
+
+export function parseMarkdown(
+	source: string,
+	{ isStreaming = false }: ParseOptions = {},
+): MarkdownBlock[] {
+	const lines = source.replace(/\r\n?/g, "\n").split("\n");
+	if (isStreaming && PARTIAL_MARKER_PATTERN.test(lines[lines.length - 1]))
+		lines.pop();
+
+	const blocks: MarkdownBlock[] = [];
+	const inline = (text: string) => parseInline(text, { isStreaming });
+	let index = 0;
+
+	while (index < lines.length) {
+		const line = lines[index];
+
+		if (!line.trim()) {
+			index += 1;
+			continue;
+		}
+
+		if (FENCE_PATTERN.test(line)) {
+			const codeLines: string[] = [];
+			index += 1;
+			while (index < lines.length && !FENCE_PATTERN.test(lines[index])) {
+				codeLines.push(lines[index]);
+				index += 1;
+			}
+			index += 1;
+			blocks.push({ type: "code", text: codeLines.join("\n") });
+			continue;
+		}
+
+		const heading = HEADING_PATTERN.exec(line);
+		if (heading) {
+			blocks.push({
+				type: "heading",
+				level: heading[1].length,
+				children: inline(heading[2]),
+			});
+			index += 1;
+			continue;
+		}
+
+		if (QUOTE_PATTERN.test(line)) {
+			const quoteLines: string[] = [];
+			while (index < lines.length) {
+				const quote = QUOTE_PATTERN.exec(lines[index]);
+				if (!quote) break;
+				quoteLines.push(quote[1]);
+				index += 1;
+			}
+			blocks.push({
+				type: "quote",
+				blocks: parseMarkdown(quoteLines.join("\n"), { isStreaming }),
+			});
+			continue;
+		}
+
+		const ordered = ORDERED_ITEM_PATTERN.exec(line);
+		if (ordered || UNORDERED_ITEM_PATTERN.test(line)) {
+			const itemPattern = ordered
+				? ORDERED_ITEM_PATTERN
+				: UNORDERED_ITEM_PATTERN;
+			const itemTexts: string[] = [];
+			while (index < lines.length && lines[index].trim()) {
+				const item = itemPattern.exec(lines[index]);
+				if (item) {
+					itemTexts.push(item[item.length - 1]);
+				} else if (isBlockStart(lines[index])) {
+					break;
+				} else {
+					// A wrapped line continues the previous item.
+					itemTexts[itemTexts.length - 1] += ` ${lines[index].trim()}`;
+				}
+				index += 1;
+			}
+			blocks.push({
+				type: "list",
+				ordered: Boolean(ordered),
+				start: ordered ? Number(ordered[1]) : 1,
+				items: itemTexts.map(inline),
+			});
+			continue;
+		}
+
+		const paragraphLines: string[] = [];
+		while (
+			index < lines.length &&
+			lines[index].trim() &&
+			(paragraphLines.length === 0 || !isBlockStart(lines[index]))
+		) {
+			paragraphLines.push(lines[index].trim());
+			index += 1;
+		}
+		blocks.push({
+			type: "paragraph",
+			children: inline(paragraphLines.join("\n")),
+		});
+	}
+
+	return blocks;
+}
+
+function inlineToPlainText(nodes: InlineNode[]): string {
+	return nodes
+		.map((node) =>
+			node.type === "text" || node.type === "code"
+				? node.text
+				: inlineToPlainText(node.children),
+		)
+		.join("");
+}
+
+function blockToPlainText(block: MarkdownBlock): string {
+	switch (block.type) {
+		case "paragraph":
+		case "heading":
+			return inlineToPlainText(block.children);
+		case "list":
+			return block.items.map(inlineToPlainText).join("\n");
+		case "quote":
+			return block.blocks.map(blockToPlainText).join("\n");
+		case "code":
+			return block.text;
+	}
+}
+
+/**
+ * The text of a reply without its markdown, one block per line.
+ */
+export function toPlainText(source: string) {
+	return parseMarkdown(source).map(blockToPlainText).join("\n");
+}
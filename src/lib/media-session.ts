@@ -0,0 +1,133 @@
+import type { AudioPlayer } from "expo-audio";
+import * as Notifications from "expo-notifications";
+import { useEffect, useRef } from "react";
+import { AppState, Platform } from "react-native";
+
+// The media controls only play and pause, so ending the session from
+// outside the app goes through a notification with its own action.
+const STOP_NOTIFICATION_CATEGORY = "media-session";
+const STOP_ACTION = "stop";
+const STOP_NOTIFICATION_CHANNEL = "media-session";
+
+async function prepareStopNotification() {
+	await Notifications.setNotificationCategoryAsync(STOP_NOTIFICATION_CATEGORY, [
+		{
+			identifier: STOP_ACTION,
+			buttonTitle: "End conversation",
+			options: { isDestructive: true, opensAppToForeground: false },
+		},
+	]);
+	if (Platform.OS === "android")
+		await Notifications.setNotificationChannelAsync(STOP_NOTIFICATION_CHANNEL, {
+			name: "Voice conversations",
+			importance: Notifications.AndroidImportance.LOW,
+		});
+	const permission = await Notifications.requestPermissionsAsync();
+	return permission.granted;
+}
+
+function showStopNotification(title: string) {
+	return Notifications.scheduleNotificationAsync({
+		content: {
+			title,
+			body: "Still listening. End the conversation here when you're done.",
+			categoryIdentifier: STOP_NOTIFICATION_CATEGORY,
+			sticky: true,
+			autoDismiss: false,
+		},
+		trigger:
+			Platform.OS === "android"
+				? { channelId: STOP_NOTIFICATION_CHANNEL }
+				: null,
+	});
+}
+
+/**
+ * Shows `player` in the media notification and on the lock screen while the
+ * calling screen is mounted. On Android the notification belongs to a
+ * foreground service, which keeps the app running in the background. Its
+ * play and pause buttons act on `player` directly.
+ *
+ * While the app is in the background a second notification offers to end
+ * the session, calling `onStop`.
+ */
+export function useMediaSession(
+	player: AudioPlayer,
+	{
+		title,
+		subtitle,
+		onStop,
+	}: { title: string; subtitle: string; onStop: () => void },
+) {
+	const titleRef = useRef(title);
+	const onStopRef = useRef(onStop);
+
+	useEffect(() => {
+		titleRef.current = title;
+		onStopRef.current = onStop;
+	}, [onStop, title]);
+
+	useEffect(() => {
+		player.setActiveForLockScreen(true, undefined, {
+			showSeekBackward: false,
+			showSeekForward: false,
+			isLiveStream: true,
+		});
+		return () => player.clearLockScreenControls();
+	}, [player]);
+
+	useEffect(() => {
+		player.updateLockScreenMetadata({ title, artist: subtitle });
+	}, [player, subtitle, title]);
+
+	useEffect(() => {
+		const isPrepared = prepareStopNotification().catch((error) => {
+			console.warn("Unable to set up the voice session notification:", error);
+			return false;
+		});
+		// Showing and dismissing are chained, so a quick return to the app
+		// never leaves the notification behind.
+		let notificationId: Promise<string | null> = Promise.resolve(null);
+		const updateNotification = (
+			update: (id: string | null) => Promise<string | null>,
+		) => {
+			notificationId = notificationId.then(update).catch((error) => {
+				console.warn("Unable to update the voice session notification:", error);
+				return null;
+			});
+		};
+		const hideNotification = () =>
+			updateNotification(async (id) => {
+				if (id) await Notifications.dismissNotificationAsync(id);
+				return null;
+			});
+
+		const appStateSubscription = AppState.addEventListener(
+			"change",
+			(state) => {
+				if (state === "active") hideNotification();
+				else if (state === "background")
+					updateNotification(async (id) =>
+						id || !(await isPrepared)
+							? id
+							: showStopNotification(titleRef.current),
+					);
+			},
+		);
+		const responseSubscription =
+			Notifications.addNotificationResponseReceivedListener((response) => {
+				if (
+					response.actionIdentifier === STOP_ACTION &&
+					response.notification.request.content.categoryIdentifier ===
+						STOP_NOTIFICATION_CATEGORY
+				)
+					onStopRef.current();
+			});
+
+		return () => {
+			appStateSubscription.remove();
+			responseSubscription.remove();
+			hideNotification();
+		};
+	}, []);
+}
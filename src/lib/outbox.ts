@@ -0,0 +1,77 @@
+import { createStoredValue } from "./stored-value";
+
+const OUTBOX_STORAGE_KEY = "@dearai/outbox";
+
+// A text message composed while the chat socket was unavailable.
+export type OutboxMessage = {
+	id: string;
+	content: string;
+	/** Session the message belongs to, or null for a chat not yet created. */
+	sessionId: string | null;
+	createdAt: number;
+};
+
+function isOutboxMessage(value: unknown): value is OutboxMessage {
+	if (typeof value !== "object" || value === null) return false;
+	const message = value as Record<string, unknown>;
+	return (
+		typeof message.id === "string" &&
+		typeof message.content === "string" &&
+		(message.sessionId === null || typeof message.sessionId === "string") &&
+		typeof message.createdAt === "number"
+	);
+}
+
+const outbox = createStoredValue<OutboxMessage[]>({
+	key: OUTBOX_STORAGE_KEY,
+	description: "the message outbox",
+	parse: (stored) =>
+		Array.isArray(stored) ? stored.filter(isOutboxMessage) : [],
+	fallback: [],
+});
+
+/**
+ * Get the pending messages for a session, oldest first.
+ */
+export async function getOutboxMessages(
+	sessionId: string | null,
+): Promise<OutboxMessage[]> {
+	const messages = await outbox.get();
+	return messages
+		.filter((message) => message.sessionId === sessionId)
+		.sort((a, b) => a.createdAt - b.createdAt);
+}
+
+export function addOutboxMessage(message: OutboxMessage): Promise<void> {
+	return outbox.update((messages) => [...messages, message]);
+}
+
+export function removeOutboxMessage(id: string): Promise<void> {
+	return outbox.update((messages) =>
+		messages.filter((message) => message.id !== id),
+	);
+}
+
+/**
+ * Attach messages queued for a new chat to the session the server created,
+ * so they are found under that session after a restart.
+ */
+export function assignOutboxSession(
+	ids: string[],
+	sessionId: string,
+): Promise<void> {
+	return outbox.update((messages) =>
+		messages.map((message) =>
+			ids.includes(message.id) && message.sessionId === null
+				? { ...message, sessionId }
+				: message,
+		),
+	);
+}
+
+/**
+ * Remove every pending message.
+ */
+export function clearOutbox(): Promise<void> {
+	return outbox.update(() => []);
+}
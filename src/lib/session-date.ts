@@ -0,0 +1,12 @@
+/**
+ * Parse a timestamp from `/api/sessions`. They are UTC but may lack the "Z",
+ * which would otherwise make them read as local time. Returns null when the
+ * string is not a date.
+ */
+export function parseSessionDate(dateString: string) {
+	const utcDateString = /(?:Z|[+-]\d{2}:?\d{2})$/i.test(dateString)
+		? dateString
+		: `${dateString}Z`;
+	const date = new Date(utcDateString);
+	return Number.isNaN(date.getTime()) ? null : date;
+}
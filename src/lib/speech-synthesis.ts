@@ -0,0 +1,197 @@
+import { useAudioPlayer, useAudioPlayerStatus } from "expo-audio";
+import { useCallback, useEffect, useRef, useState } from "react";
+import {
+	KOKORO_AMERICAN_ENGLISH_FEMALE_HEART,
+	useTextToSpeech,
+} from "react-native-executorch";
+
+import { deleteAudioCacheFiles, writeAudioCacheFile } from "./audio-cache";
+import { toPlainText } from "./markdown";
+
+export const SPEECH_SYNTHESIS_MODEL = KOKORO_AMERICAN_ENGLISH_FEMALE_HEART;
+// Kokoro generates mono audio at 24 kHz.
+const SYNTHESIS_SAMPLE_RATE = 24_000;
+// A sentence ends at terminal punctuation followed by a space, or a newline.
+const SENTENCE_END_PATTERN = /[.!?…]+["')\]]*\s+|\n+/g;
+
+/**
+ * Encodes float samples in [-1, 1] as a 16-bit PCM WAV file.
+ */
+export function encodeWav(samples: Float32Array, sampleRate: number) {
+	const dataBytes = samples.length * 2;
+	const bytes = new Uint8Array(44 + dataBytes);
+	const view = new DataView(bytes.buffer);
+	const writeAscii = (offset: number, text: string) => {
+		for (let index = 0; index < text.length; index += 1)
+			view.setUint8(offset + index, text.charCodeAt(index));
+	};
+
+	writeAscii(0, "RIFF");
+	view.setUint32(4, 36 + dataBytes, true);
+	writeAscii(8, "WAVE");
+	writeAscii(12, "fmt ");
+	view.setUint32(16, 16, true);
+	view.setUint16(20, 1, true);
+	view.setUint16(22, 1, true);
+	view.setUint32(24, sampleRate, true);
+	view.setUint32(28, sampleRate * 2, true);
+	view.setUint16(32, 2, true);
+	view.setUint16(34, 16, true);
+	writeAscii(36, "data");
+	view.setUint32(40, dataBytes, true);
+	for (let index = 0; index < samples.length; index += 1) {
+		const sample = Math.max(-1, Math.min(1, samples[index]));
+		view.setInt16(44 + index * 2, sample * 0x7fff, true);
+	}
+	return bytes;
+}
+
+export type SentenceBuffer = {
+	/** Adds streamed text, returning the sentences it completes. */
+	push: (text: string) => string[];
+	/** Returns whatever is left once the text has finished streaming. */
+	flush: () => string;
+};
+
+/**
+ * Collects streamed reply text into whole sentences, so each one can be
+ * spoken as soon as it is complete.
+ */
+export function createSentenceBuffer(): SentenceBuffer {
+	let pending = "";
+
+	return {
+		push(text) {
+			pending += text;
+			const sentences: string[] = [];
+			let start = 0;
+			for (const match of pending.matchAll(SENTENCE_END_PATTERN)) {
+				const end = match.index + match[0].length;
+				const sentence = pending.slice(start, end).trim();
+				if (sentence) sentences.push(sentence);
+				start = end;
+			}
+			pending = pending.slice(start);
+			return sentences;
+		},
+		flush() {
+			const rest = pending.trim();
+			pending = "";
+			return rest;
+		},
+	};
+}
+
+/**
+ * Speech generated on the device with Kokoro. `synthesize` turns plain text
+ * into a cached WAV clip; calls run one at a time, in order.
+ */
+export function useSpeechSynthesis(isEnabled: boolean) {
+	const { error, isReady, downloadProgress, forward } = useTextToSpeech(
+		SPEECH_SYNTHESIS_MODEL,
+		{ preventLoad: !isEnabled },
+	);
+	// The model handles a single request at a time.
+	const queueRef = useRef<Promise<unknown>>(Promise.resolve());
+
+	const synthesize = useCallback(
+		(text: string, speed = 1): Promise<string> => {
+			const next = queueRef.current
+				.catch(() => undefined)
+				.then(async () => {
+					const samples = await forward({ text, speed });
+					return writeAudioCacheFile(
+						encodeWav(samples, SYNTHESIS_SAMPLE_RATE),
+						"wav",
+					);
+				});
+			queueRef.current = next;
+			return next;
+		},
+		[forward],
+	);
+
+	return { error, isReady, downloadProgress, synthesize };
+}
+
+/**
+ * Reads replies aloud sentence by sentence with on-device speech, so the
+ * first one plays while the rest are still being generated. One reply plays
+ * at a time; its clips are deleted when the screen closes.
+ */
+export function useReadAloud(isEnabled: boolean) {
+	const { isReady, synthesize } = useSpeechSynthesis(isEnabled);
+	const player = useAudioPlayer(null);
+	const playerStatus = useAudioPlayerStatus(player);
+	const queueRef = useRef<string[]>([]);
+	const clipsRef = useRef<string[]>([]);
+	const pendingRef = useRef(0);
+	const isPlayingRef = useRef(false);
+	// Bumped on every read or stop, so clips of an abandoned reply are dropped.
+	const generationRef = useRef(0);
+	const [readingId, setReadingId] = useState<string | null>(null);
+
+	useEffect(() => {
+		const clips = clipsRef.current;
+		return () => deleteAudioCacheFiles(clips);
+	}, []);
+
+	const playNext = useCallback(() => {
+		if (isPlayingRef.current) return;
+		const uri = queueRef.current.shift();
+		if (!uri) {
+			if (pendingRef.current === 0) setReadingId(null);
+			return;
+		}
+		isPlayingRef.current = true;
+		player.replace({ uri });
+		player.play();
+	}, [player]);
+
+	useEffect(() => {
+		if (!playerStatus.didJustFinish && !playerStatus.error) return;
+		isPlayingRef.current = false;
+		playNext();
+	}, [playNext, playerStatus.didJustFinish, playerStatus.error]);
+
+	const stop = useCallback(() => {
+		generationRef.current += 1;
+		queueRef.current = [];
+		pendingRef.current = 0;
+		isPlayingRef.current = false;
+		player.pause();
+		setReadingId(null);
+	}, [player]);
+
+	const read = useCallback(
+		(id: string, text: string) => {
+			stop();
+			const generation = generationRef.current;
+			const buffer = createSentenceBuffer();
+			const sentences = [...buffer.push(toPlainText(text)), buffer.flush()];
+			if (!sentences.some(Boolean)) return;
+			setReadingId(id);
+
+			for (const sentence of sentences.filter(Boolean)) {
+				pendingRef.current += 1;
+				synthesize(sentence)
+					.then((uri) => {
+						clipsRef.current.push(uri);
+						if (generation === generationRef.current)
+							queueRef.current.push(uri);
+					})
+					.catch((error) => {
+						console.warn("On-device speech failed:", error);
+					})
+					.finally(() => {
+						if (generation !== generationRef.current) return;
+						pendingRef.current -= 1;
+						playNext();
+					});
+			}
+		},
+		[playNext, stop, synthesize],
+	);
+
+	return { isAvailable: isEnabled && isReady, readingId, read, stop };
+}
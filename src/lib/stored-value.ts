@@ -0,0 +1,54 @@
+import AsyncStorage from "@react-native-async-storage/async-storage";
+
+type StoredValueOptions<T> = {
+	key: string;
+	/** Names the value in warnings, e.g. "the message outbox". */
+	description: string;
+	/** Turn what was stored into a valid value, dropping anything malformed. */
+	parse: (stored: unknown) => T;
+	/** Value used when nothing is stored or it can't be read. */
+	fallback: T;
+};
+
+/**
+ * A JSON value kept in AsyncStorage. Updates are chained so concurrent ones
+ * never overwrite each other, and reads wait for pending updates.
+ */
+export function createStoredValue<T>({
+	key,
+	description,
+	parse,
+	fallback,
+}: StoredValueOptions<T>) {
+	let pendingUpdate: Promise<unknown> = Promise.resolve();
+
+	async function read(): Promise<T> {
+		try {
+			const stored = await AsyncStorage.getItem(key);
+			return stored ? parse(JSON.parse(stored)) : fallback;
+		} catch (error) {
+			console.warn(`Unable to load ${description}:`, error);
+			return fallback;
+		}
+	}
+
+	async function get(): Promise<T> {
+		await pendingUpdate.catch(() => undefined);
+		return read();
+	}
+
+	function update(change: (value: T) => T): Promise<void> {
+		const next = pendingUpdate
+			.catch(() => undefined)
+			.then(async () => {
+				const value = change(await read());
+				await AsyncStorage.setItem(key, JSON.stringify(value));
+			});
+		pendingUpdate = next;
+		return next.catch((error) => {
+			console.warn(`Unable to save ${description}:`, error);
+		});
+	}
+
+	return { get, update };
+}
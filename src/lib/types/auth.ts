@@ -14,4 +14,6 @@ export interface AuthContextType {
 	isLoading: boolean;
 	signIn: () => Promise<void>;
 	signOut: () => Promise<void>;
+	/** Delete the account on the server, then sign out and wipe local data. */
+	deleteAccount: () => Promise<void>;
 }
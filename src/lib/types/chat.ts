@@ -0,0 +1,12 @@
+// A chat session as returned by `/api/sessions`
+export interface Conversation {
+	created_at: string;
+	id: string;
+	is_archived?: boolean;
+	is_pinned?: boolean;
+	/** How the conversation was started; older sessions omit it. */
+	mode?: "text" | "voice";
+	title: string;
+	updated_at: string;
+	user_id: string;
+}
@@ -0,0 +1,213 @@
+import type { AudioStreamBuffer, RecordingInput } from "expo-audio";
+
+// Levels are in dBFS: 0 is the loudest int16 sample, quiet rooms sit well
+// below -50 and normal speech close to the phone around -30.
+const SILENCE_LEVEL = -100;
+const SPEECH_THRESHOLD_DB = -42;
+// Speech has to last this long to count, so taps and clicks don't start a turn.
+const MIN_SPEECH_MS = 150;
+// Audio kept from before speech was detected, so its first syllable isn't cut.
+const PRE_ROLL_MS = 400;
+
+// While Dear AI is speaking the microphone also hears the reply, so
+// interrupting it takes a louder and longer sound.
+export const BARGE_IN_DETECTION = { thresholdDb: -30, minSpeechMs: 350 };
+// The microphone stream has no echo cancellation, so replies from the
+// loudspeaker would interrupt themselves. Barge-in needs one of these
+// headset microphones, as named by iOS and Android.
+const HEADSET_INPUT_TYPES = new Set([
+	"MicrophoneWired",
+	"BluetoothHFP",
+	"BluetoothSCO",
+	"USBAudio",
+]);
+
+// Meters show levels from this floor up to full scale.
+const METER_FLOOR_DB = -60;
+// Samples this close to full scale mean the microphone is overloaded.
+const CLIPPING_SAMPLE = 32_400;
+// A few clipped buffers within the window are needed, so one knock on the
+// phone doesn't raise a warning.
+const MIN_CLIPPED_BUFFERS = 3;
+// Recordings that never get louder than this are hard to transcribe.
+const TOO_QUIET_DB = -50;
+const INPUT_WARNING_WINDOW_MS = 2000;
+
+export type InputLevelWarning = "clipping" | "too_quiet";
+
+export type InputLevelMonitor = {
+	/** Feeds a buffer, returning the warning that fits the latest audio. */
+	process: (buffer: AudioStreamBuffer) => InputLevelWarning | null;
+};
+
+export type VoiceActivityEvent = "speech_start" | "speech_end";
+
+export type VoiceActivityDetector = {
+	/** Feeds a buffer, returning the transition it completes, if any. */
+	process: (buffer: AudioStreamBuffer) => VoiceActivityEvent | null;
+	/**
+	 * Buffers from just before and including the one that started speech.
+	 * Only meaningful right after `process` returns "speech_start".
+	 */
+	getPreRoll: () => AudioStreamBuffer[];
+	/**
+	 * Changes the thresholds without leaving the current state, so speech
+	 * that has already started carries on. Omitted values use the defaults.
+	 */
+	setDetection: (detection: {
+		thresholdDb?: number;
+		minSpeechMs?: number;
+	}) => void;
+};
+
+/**
+ * Whether a headset microphone is connected, which keeps replies out of what
+ * the microphone hears.
+ */
+export function hasHeadsetInput(inputs: RecordingInput[]) {
+	return inputs.some((input) => HEADSET_INPUT_TYPES.has(input.type));
+}
+
+/**
+ * The RMS level of a buffer of int16 PCM, in dBFS.
+ */
+export function getPcmLevel(data: ArrayBuffer) {
+	const samples = new Int16Array(data);
+	if (samples.length === 0) return SILENCE_LEVEL;
+
+	let sumOfSquares = 0;
+	for (const sample of samples) sumOfSquares += sample * sample;
+	const rms = Math.sqrt(sumOfSquares / samples.length) / 32_768;
+	return rms > 0
+		? Math.max(20 * Math.log10(rms), SILENCE_LEVEL)
+		: SILENCE_LEVEL;
+}
+
+/**
+ * The RMS level of float frames in [-1, 1], in dBFS.
+ */
+export function getFrameLevel(frames: ArrayLike<number>) {
+	if (frames.length === 0) return SILENCE_LEVEL;
+
+	let sumOfSquares = 0;
+	for (let index = 0; index < frames.length; index += 1)
+		sumOfSquares += frames[index] * frames[index];
+	const rms = Math.sqrt(sumOfSquares / frames.length);
+	return rms > 0
+		? Math.max(20 * Math.log10(rms), SILENCE_LEVEL)
+		: SILENCE_LEVEL;
+}
+
+/**
+ * Maps a dBFS level onto 0 to 1 for level meters.
+ */
+export function getMeterLevel(levelDb: number) {
+	return Math.min(Math.max(1 - levelDb / METER_FLOOR_DB, 0), 1);
+}
+
+function hasClippedSamples(data: ArrayBuffer) {
+	for (const sample of new Int16Array(data))
+		if (sample >= CLIPPING_SAMPLE || sample <= -CLIPPING_SAMPLE) return true;
+	return false;
+}
+
+/**
+ * Watches a recording for input that is too loud or too quiet to transcribe
+ * well. Too quiet is only reported once a full window has been heard.
+ */
+export function createInputLevelMonitor(): InputLevelMonitor {
+	let history: { time: number; level: number; isClipped: boolean }[] = [];
+	let startedAt: number | null = null;
+
+	return {
+		process(buffer) {
+			const time = buffer.timestamp * 1000;
+			startedAt ??= time;
+			history.push({
+				time,
+				level: getPcmLevel(buffer.data),
+				isClipped: hasClippedSamples(buffer.data),
+			});
+			history = history.filter(
+				(entry) => time - entry.time <= INPUT_WARNING_WINDOW_MS,
+			);
+
+			if (
+				history.filter((entry) => entry.isClipped).length >= MIN_CLIPPED_BUFFERS
+			)
+				return "clipping";
+			if (
+				time - startedAt >= INPUT_WARNING_WINDOW_MS &&
+				history.every((entry) => entry.level < TOO_QUIET_DB)
+			)
+				return "too_quiet";
+			return null;
+		},
+	};
+}
+
+/**
+ * Energy-based voice activity detection on the microphone stream. Speech
+ * starts once the level stays above the threshold for `minSpeechMs` and
+ * ends after `silenceMs` below it.
+ */
+export function createVoiceActivityDetector({
+	silenceMs,
+	...detection
+}: {
+	silenceMs: number;
+	thresholdDb?: number;
+	minSpeechMs?: number;
+}): VoiceActivityDetector {
+	let thresholdDb = detection.thresholdDb ?? SPEECH_THRESHOLD_DB;
+	let minSpeechMs = detection.minSpeechMs ?? MIN_SPEECH_MS;
+	let preRoll: AudioStreamBuffer[] = [];
+	let isSpeaking = false;
+	let speechStartedAt: number | null = null;
+	let silenceStartedAt: number | null = null;
+
+	return {
+		process(buffer) {
+			const time = buffer.timestamp * 1000;
+			const isLoud = getPcmLevel(buffer.data) >= thresholdDb;
+
+			if (isSpeaking) {
+				if (isLoud) {
+					silenceStartedAt = null;
+					return null;
+				}
+				silenceStartedAt ??= time;
+				if (time - silenceStartedAt < silenceMs) return null;
+				isSpeaking = false;
+				speechStartedAt = null;
+				silenceStartedAt = null;
+				return "speech_end";
+			}
+
+			preRoll.push(buffer);
+			while (
+				preRoll.length > 1 &&
+				time - preRoll[0].timestamp * 1000 > PRE_ROLL_MS
+			)
+				preRoll.shift();
+
+			if (!isLoud) {
+				speechStartedAt = null;
+				return null;
+			}
+			speechStartedAt ??= time;
+			if (time - speechStartedAt < minSpeechMs) return null;
+			isSpeaking = true;
+			return "speech_start";
+		},
+		getPreRoll() {
+			const buffers = preRoll;
+			preRoll = [];
+			return buffers;
+		},
+		setDetection(next) {
+			thresholdDb = next.thresholdDb ?? SPEECH_THRESHOLD_DB;
+			minSpeechMs = next.minSpeechMs ?? MIN_SPEECH_MS;
+		},
+	};
+}
@@ -0,0 +1,50 @@
+import { createStoredValue } from "./stored-value";
+import { isVoiceOptions, type VoiceOptions } from "./voices";
+
+const VOICE_OVERRIDES_STORAGE_KEY = "@dearai/voice-overrides";
+
+// Voice options chosen for single conversations, by session id. They take
+// precedence over the voice in settings.
+type VoiceOverrides = Record<string, VoiceOptions>;
+
+const voiceOverrides = createStoredValue<VoiceOverrides>({
+	key: VOICE_OVERRIDES_STORAGE_KEY,
+	description: "conversation voices",
+	parse: (stored) =>
+		typeof stored === "object" && stored !== null
+			? Object.fromEntries(
+					Object.entries(stored).filter(([, options]) =>
+						isVoiceOptions(options),
+					),
+				)
+			: {},
+	fallback: {},
+});
+
+export async function getVoiceOverride(
+	sessionId: string,
+): Promise<VoiceOptions | null> {
+	return (await voiceOverrides.get())[sessionId] ?? null;
+}
+
+/**
+ * Use `options` for one conversation, or its default voice again for null.
+ */
+export function setVoiceOverride(
+	sessionId: string,
+	options: VoiceOptions | null,
+): Promise<void> {
+	return voiceOverrides.update((overrides) => {
+		const next = { ...overrides };
+		if (options) next[sessionId] = options;
+		else delete next[sessionId];
+		return next;
+	});
+}
+
+/**
+ * Remove every conversation's voice.
+ */
+export function clearVoiceOverrides(): Promise<void> {
+	return voiceOverrides.update(() => ({}));
+}
@@ -0,0 +1,132 @@
+import type { AudioStreamBuffer } from "expo-audio";
+import { WHISPER_TINY_EN } from "react-native-executorch";
+
+import {
+	CHAT_SOCKET_MAX_FRAME_BYTES,
+	type ChatSocket,
+	type ChatSocketPayload,
+	getChatSocketFrameBytes,
+} from "./chat-socket";
+import type { VoiceUpload } from "./voice-upload";
+import type { VoiceOptions } from "./voices";
+
+export const SPEECH_RECOGNITION_MODEL = WHISPER_TINY_EN;
+// Whisper only accepts 16 kHz mono audio.
+const WHISPER_SAMPLE_RATE = 16_000;
+
+/**
+ * Converts int16 PCM buffers into the mono 16 kHz float waveform Whisper
+ * expects.
+ */
+export function toWhisperWaveform(buffers: AudioStreamBuffer[]) {
+	const { sampleRate, channels } = buffers[0];
+	let frameCount = 0;
+	for (const buffer of buffers)
+		frameCount += Math.floor(buffer.data.byteLength / (2 * channels));
+
+	const mono = new Float32Array(frameCount);
+	let offset = 0;
+	for (const buffer of buffers) {
+		const samples = new Int16Array(buffer.data);
+		for (let index = 0; index + channels <= samples.length; index += channels) {
+			let sum = 0;
+			for (let channel = 0; channel < channels; channel += 1)
+				sum += samples[index + channel];
+			mono[offset] = sum / channels / 32_768;
+			offset += 1;
+		}
+	}
+	if (sampleRate === WHISPER_SAMPLE_RATE) return mono;
+
+	const ratio = sampleRate / WHISPER_SAMPLE_RATE;
+	const waveform = new Float32Array(Math.floor(mono.length / ratio));
+	for (let index = 0; index < waveform.length; index += 1) {
+		const position = index * ratio;
+		const before = Math.floor(position);
+		const after = Math.min(before + 1, mono.length - 1);
+		const weight = position - before;
+		waveform[index] = mono[before] * (1 - weight) + mono[after] * weight;
+	}
+	return waveform;
+}
+
+/**
+ * Records an utterance for on-device speech recognition. The transcript is
+ * reported as soon as the device has it. The audio is also streamed through
+ * `audio` when given; without it, or once that stream fails, the transcript
+ * is sent as text instead.
+ */
+export function createTranscribingUpload(
+	socket: Pick<ChatSocket, "send">,
+	{
+		audio,
+		transcribe,
+		voiceOptions,
+		sessionId,
+		onTranscript,
+		onError,
+	}: {
+		audio: VoiceUpload | null;
+		transcribe: (waveform: Float32Array) => Promise<string>;
+		voiceOptions: VoiceOptions;
+		sessionId?: string;
+		onTranscript: (transcript: string) => void;
+		/** Called when the text could not be sent, so no reply will come. */
+		onError: (error: Error) => void;
+	},
+): VoiceUpload {
+	const buffers: AudioStreamBuffer[] = [];
+	let isStreamingAudio = audio !== null;
+
+	return {
+		write(buffer) {
+			buffers.push(buffer);
+			if (isStreamingAudio && !audio?.write(buffer)) isStreamingAudio = false;
+			return true;
+		},
+		finish(emotions) {
+			if (buffers.length === 0) throw new Error("No recording was captured.");
+			if (isStreamingAudio) {
+				try {
+					audio?.finish(emotions);
+				} catch {
+					isStreamingAudio = false;
+				}
+			}
+			const sentAudio = isStreamingAudio;
+
+			transcribe(toWhisperWaveform(buffers))
+				.then((transcript) => {
+					if (transcript) onTranscript(transcript);
+					if (sentAudio) return;
+					if (!transcript)
+						throw new Error("We couldn't make out what you said.");
+					const payload: ChatSocketPayload = {
+						type: "voice_transcript",
+						content: transcript,
+						voice_mode: true,
+						voice: voiceOptions.voice,
+						speaking_rate: voiceOptions.speakingRate,
+						pitch: voiceOptions.pitch,
+						session_id: sessionId,
+						emotions,
+					};
+					if (getChatSocketFrameBytes(payload) > CHAT_SOCKET_MAX_FRAME_BYTES)
+						throw new Error(
+							"That message was too long to send. Try saying it in shorter parts.",
+						);
+					if (!socket.send(payload))
+						throw new Error("The chat connection is unavailable.");
+				})
+				.catch((error: unknown) => {
+					// The server transcribes streamed audio itself.
+					if (sentAudio) return;
+					onError(
+						error instanceof Error
+							? error
+							: new Error("Couldn't transcribe your voice note."),
+					);
+				});
+		},
+	};
+}
@@ -0,0 +1,96 @@
+import type { AudioStreamBuffer } from "expo-audio";
+
+import { CHAT_SOCKET_MAX_FRAME_BYTES, type ChatSocket } from "./chat-socket";
+import type { VoiceOptions } from "./voices";
+
+// Speech recognition needs no more than 16 kHz, and int16 PCM at that rate
+// is a small enough stream to send as it is captured.
+export const VOICE_SAMPLE_RATE = 16_000;
+const BYTES_PER_SAMPLE = 2;
+// Microphone buffers are batched so each frame carries about this much audio.
+const CHUNK_DURATION_MS = 200;
+
+export type VoiceUpload = {
+	/**
+	 * Queues a buffer of int16 PCM, sending it once a chunk has built up.
+	 * Returns false when the socket is no longer open.
+	 */
+	write: (buffer: AudioStreamBuffer) => boolean;
+	/** Sends the remaining audio and ends the utterance. */
+	finish: (emotions?: string[]) => void;
+};
+
+/**
+ * Streams one utterance over the chat socket while it is being recorded.
+ * The `audio_start` frame waits for the first buffer, which carries the
+ * sample rate the microphone actually delivers.
+ */
+export function createVoiceUpload(
+	socket: Pick<ChatSocket, "send" | "sendAudio">,
+	{
+		voiceOptions,
+		sessionId,
+	}: { voiceOptions: VoiceOptions; sessionId?: string },
+): VoiceUpload {
+	let pending: Uint8Array[] = [];
+	let pendingBytes = 0;
+	let chunkBytes = 0;
+	let hasStarted = false;
+
+	function flush() {
+		if (pendingBytes === 0) return true;
+		const chunk = new Uint8Array(pendingBytes);
+		let offset = 0;
+		for (const part of pending) {
+			chunk.set(part, offset);
+			offset += part.byteLength;
+		}
+		pending = [];
+		pendingBytes = 0;
+		// Microphones that deliver large buffers can exceed the frame limit.
+		for (
+			let offset = 0;
+			offset < chunk.byteLength;
+			offset += CHAT_SOCKET_MAX_FRAME_BYTES
+		) {
+			const frame = chunk.slice(offset, offset + CHAT_SOCKET_MAX_FRAME_BYTES);
+			if (!socket.sendAudio(frame.buffer)) return false;
+		}
+		return true;
+	}
+
+	return {
+		write(buffer) {
+			if (!hasStarted) {
+				hasStarted = true;
+				chunkBytes =
+					(buffer.sampleRate *
+						buffer.channels *
+						BYTES_PER_SAMPLE *
+						CHUNK_DURATION_MS) /
+					1000;
+				const sent = socket.send({
+					type: "audio_start",
+					voice_mode: true,
+					voice: voiceOptions.voice,
+					speaking_rate: voiceOptions.speakingRate,
+					pitch: voiceOptions.pitch,
+					session_id: sessionId,
+					encoding: "pcm_s16le",
+					sample_rate: buffer.sampleRate,
+					channels: buffer.channels,
+				});
+				if (!sent) return false;
+			}
+
+			pending.push(new Uint8Array(buffer.data));
+			pendingBytes += buffer.data.byteLength;
+			return pendingBytes < chunkBytes || flush();
+		},
+		finish(emotions) {
+			if (!hasStarted) throw new Error("No recording was captured.");
+			if (!flush() || !socket.send({ type: "audio_end", emotions }))
+				throw new Error("The chat connection is unavailable.");
+		},
+	};
+}
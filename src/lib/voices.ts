@@ -0,0 +1,95 @@
+import { EncodingType } from "expo-file-system";
+
+import { api } from "./api";
+import { getAudioCacheFile } from "./audio-cache";
+
+// How Dear AI speaks in voice chats. `voice` is a Cloud Text-to-Speech
+// voice name, `speakingRate` a multiple of normal speed and `pitch` a shift
+// in semitones.
+export type VoiceOptions = {
+	voice: string;
+	speakingRate: number;
+	pitch: number;
+};
+
+export type AssistantVoice = {
+	id: string;
+	name: string;
+	description: string;
+};
+
+export const ASSISTANT_VOICES: AssistantVoice[] = [
+	{ id: "en-US-Studio-O", name: "Olivia", description: "Warm and calm" },
+	{ id: "en-US-Studio-Q", name: "Quinn", description: "Steady and low" },
+	{ id: "en-US-Neural2-F", name: "Faith", description: "Bright and clear" },
+	{ id: "en-US-Neural2-J", name: "James", description: "Relaxed and friendly" },
+	{ id: "en-GB-Neural2-A", name: "Amelia", description: "Soft British accent" },
+	{ id: "en-GB-Neural2-B", name: "Ben", description: "Gentle British accent" },
+];
+
+export const SPEAKING_RATES = [
+	{ value: 0.8, label: "Slower" },
+	{ value: 0.9, label: "Slow" },
+	{ value: 1, label: "Normal" },
+	{ value: 1.15, label: "Fast" },
+	{ value: 1.3, label: "Faster" },
+];
+
+export const VOICE_PITCHES = [
+	{ value: -4, label: "Lower" },
+	{ value: -2, label: "Low" },
+	{ value: 0, label: "Normal" },
+	{ value: 2, label: "High" },
+	{ value: 4, label: "Higher" },
+];
+
+export const DEFAULT_VOICE_OPTIONS: VoiceOptions = {
+	voice: "en-US-Studio-O",
+	speakingRate: 1,
+	pitch: 0,
+};
+
+export function isVoiceOptions(value: unknown): value is VoiceOptions {
+	if (typeof value !== "object" || value === null) return false;
+	const options = value as Record<string, unknown>;
+	return (
+		typeof options.voice === "string" &&
+		typeof options.speakingRate === "number" &&
+		typeof options.pitch === "number"
+	);
+}
+
+/**
+ * A one-line summary such as "Olivia · Normal rate · Low pitch".
+ */
+export function describeVoiceOptions(options: VoiceOptions) {
+	const name =
+		ASSISTANT_VOICES.find((voice) => voice.id === options.voice)?.name ??
+		options.voice;
+	const rate =
+		SPEAKING_RATES.find((option) => option.value === options.speakingRate)
+			?.label ?? `${options.speakingRate}×`;
+	const pitch =
+		VOICE_PITCHES.find((option) => option.value === options.pitch)?.label ??
+		options.pitch.toString();
+	return `${name} · ${rate} rate · ${pitch} pitch`;
+}
+
+/**
+ * Get a short sample of `options` as an audio file, reusing one fetched
+ * earlier for the same options.
+ */
+export async function getVoicePreview(options: VoiceOptions): Promise<string> {
+	const file = getAudioCacheFile(
+		`voice-preview-${options.voice}-${options.speakingRate}-${options.pitch}.mp3`,
+	);
+	if (file.exists) return file.uri;
+
+	const response = await api.post<{ audio: string }>("/api/voices/preview", {
+		voice: options.voice,
+		speaking_rate: options.speakingRate,
+		pitch: options.pitch,
+	});
+	file.write(response.data.audio, { encoding: EncodingType.Base64 });
+	return file.uri;
+}